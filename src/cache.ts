@@ -1,24 +1,61 @@
 import fs from 'fs/promises'
+import os from 'os'
 import path from 'path'
 import type { CliOptions } from './cli.js'
-import type { Branch, PullRequest, Repository } from './github.js'
+import { getRepoKey, type PageValidator, repoKeyOf } from './forge.js'
+import type { Branch, PullRequest, Repository, SearchResult } from './github.js'
+import { acquireLock, type Lock } from './lock.js'
+import { CACHE_SCHEMA_VERSION, migrateCache } from './migrations.js'
+import {
+  allChanges,
+  type CacheChanges,
+  type CacheStorage,
+  countChanges,
+  emptyChanges,
+  mergeChanges,
+  openStorage,
+  type StorageKind,
+} from './storage.js'
+import { createJsonStorage } from './storage/json.js'
+
+// Cache location: find-juju-cache.db (SQLite) or find-juju-cache.json in the cache directory
+const CACHE_NAME = 'find-juju-cache'
+// Name of the cache directory in the XDG cache directory
+const CACHE_DIR_NAME = 'find-juju-users'
+// Where older versions kept the cache, relative to the working directory
+const LEGACY_CACHE_DIR = '.cache'
+
+// Where the cache is kept (--cache-dir, --profile)
+export interface CacheLocation {
+  dir?: string
+  profile?: string
+}
 
-// Cache file location
-const CACHE_DIR = '.cache'
-const CACHE_FILE = 'find-juju-cache.json'
+// A run of the tool
+export interface RunRecord {
+  startedAt: number
+  finishedAt?: number // Missing for runs that were interrupted or failed
+  options: CliOptions
+}
 
 // Cache structure
 export interface CacheData {
-  cliOptions: CliOptions
+  schemaVersion: number // See migrations.ts
   timestamp: number
   repositories: {
     [repoKey: string]: { // in format owner/repo
       ownerType?: 'organization' | 'user'
+      ownerTypeTimestamp?: number
       data: Repository
       branches?: Branch[]
       branchesTimestamp?: number
+      branchesPages?: Record<string, PageValidator> // Validators for conditional requests, by page URL
+      branchesRefQueries?: string[] // GraphQL ref queries that the branches were filtered by; all branches without
       pullRequests?: PullRequest[]
       pullRequestsTimestamp?: number
+      pullRequestsComplete?: boolean // Pull requests of every state; older caches hold a --pr-status filtered list
+      pullRequestsCursor?: string // Latest updated_at of the cached pull requests, for incremental syncs
+      pullRequestsPages?: Record<string, PageValidator>
     }
   }
   topRepos?: {
@@ -30,77 +67,230 @@ export interface CacheData {
     [owner: string]: {
       data: Repository[]
       timestamp: number
+      pages?: Record<string, PageValidator>
+    }
+  }
+  orgMembers?: {
+    [org: string]: { // Public member logins of the organization
+      data: string[]
+      timestamp: number
+    }
+  }
+  forks?: {
+    [repoKey: string]: { // Forks of the repository, in format owner/repo
+      data: Repository[]
+      timestamp: number
+    }
+  }
+  globalSearch?: {
+    [windowKey: string]: { // in format "<query>|<YYYY-MM>"
+      data: SearchResult[]
+      complete: boolean // Whether the window had ended when it was fetched
+      timestamp: number
     }
   }
+  runs?: RunRecord[] // Oldest first
 }
 
 // Initialize empty cache
 export const initializeCache = (): CacheData => {
   return {
-    cliOptions: {
-      owners: [],
-      repos: [],
-      includePrs: false,
-      prStatus: 'all',
-    },
+    schemaVersion: CACHE_SCHEMA_VERSION,
     timestamp: Date.now(),
     repositories: {},
+    runs: [],
   }
 }
 
-// Create cache directory if it doesn't exist
-const ensureCacheDir = async (): Promise<void> => {
-  try {
-    await fs.mkdir(CACHE_DIR, { recursive: true })
-  } catch (error) {
-    console.error('Error creating cache directory:', error)
-  }
+let storageKind: StorageKind = 'sqlite'
+let cacheLocation: CacheLocation = {}
+let storage: Promise<CacheStorage> | null = null
+let lock: Lock | null = null
+
+// Entries changed since the last save; the cache functions below record them
+let pendingChanges: CacheChanges = emptyChanges()
+
+// Saves run one after another, as storages can't write concurrently
+let saving: Promise<unknown> = Promise.resolve()
+let lastSave = Date.now()
+
+// Write-behind: saveCacheIfDue saves once this many changes are pending, or when the last save is this old
+const SAVE_MAX_PENDING = 100
+const SAVE_INTERVAL = 30 * 1000
+
+// The cache directory: --cache-dir, $FIND_JUJU_CACHE_DIR or find-juju-users in $XDG_CACHE_HOME (~/.cache).
+// Named profiles each keep their own cache in profiles/<name> of it.
+export const resolveCacheDir = ({ dir, profile }: CacheLocation = {}): string => {
+  // XDG_CACHE_HOME is ignored unless it's absolute, as the XDG Base Directory Specification requires
+  const xdgCacheHome = process.env.XDG_CACHE_HOME && path.isAbsolute(process.env.XDG_CACHE_HOME)
+    ? process.env.XDG_CACHE_HOME
+    : path.join(os.homedir(), '.cache')
+  const baseDir = dir || process.env.FIND_JUJU_CACHE_DIR || path.join(xdgCacheHome, CACHE_DIR_NAME)
+  return profile ? path.join(baseDir, 'profiles', profile) : baseDir
+}
+
+// Choose how (--storage) and where (--cache-dir, --profile) the cache is stored
+export const configureStorage = (kind: StorageKind, location: CacheLocation = {}): void => {
+  storageKind = kind
+  cacheLocation = location
+  storage = null
 }
 
-// Load cache from file
-export const loadCache = async (forceRefresh = false): Promise<CacheData> => {
-  // If forceRefresh is true, return a fresh cache
-  if (forceRefresh) {
-    console.log('Force refresh requested. Starting with a fresh cache.')
-    return initializeCache()
+// Open the configured storage on first use
+const getStorage = (): Promise<CacheStorage> => {
+  storage ??= openStorage(storageKind, resolveCacheDir(cacheLocation), CACHE_NAME)
+  return storage
+}
+
+// Keep other runs from using the cache until this process exits, as they would overwrite each other's changes.
+// Throws if another run holds the lock.
+export const lockCache = async (): Promise<void> => {
+  lock ??= await acquireLock(path.join(resolveCacheDir(cacheLocation), `${CACHE_NAME}.lock`))
+}
+
+// Point out a cache that an older version kept in the working directory, when starting without a cache
+const pointOutLegacyCache = async (): Promise<void> => {
+  if (path.resolve(resolveCacheDir(cacheLocation)) === path.resolve(LEGACY_CACHE_DIR)) return
+
+  for (const ext of ['db', 'json']) {
+    const legacyPath = path.join(LEGACY_CACHE_DIR, `${CACHE_NAME}.${ext}`)
+    if (await fs.access(legacyPath).then(() => true, () => false)) {
+      console.log(`Found a cache of an older version in ${legacyPath}. Use --cache-dir ${LEGACY_CACHE_DIR} to use it.`)
+      return
+    }
   }
+}
 
+// Load the backup of a stored cache that can't be used, if there's a usable one
+const recoverCache = async (store: CacheStorage): Promise<CacheData | null> => {
   try {
-    await ensureCacheDir()
-    const cachePath = path.join(CACHE_DIR, CACHE_FILE)
-    const data = await fs.readFile(cachePath, 'utf-8')
-    console.log('Loaded cache from disk. Use --force-refresh to ignore cache.')
-    return JSON.parse(data) as CacheData
+    const backup = await store.loadBackup()
+    if (backup === null) return null
+
+    const cache = migrateCache(backup.cache)
+    console.warn(`Recovered the cache from ${backup.path}.`)
+    // The stored cache was moved aside, so all of this one has to be written
+    pendingChanges = allChanges(cache)
+    return cache
   } catch (error) {
-    // If file doesn't exist or has invalid JSON, return a new cache
-    console.log('No valid cache found. Starting fresh.')
-    return initializeCache()
+    console.warn(`The cache backup can't be used either: ${error instanceof Error ? error.message : String(error)}`)
+    return null
   }
 }
 
-// Save cache to file
-export const saveCache = async (cache: CacheData): Promise<void> => {
+// Load cache from storage, upgrading it if it was written by an older version.
+// A cache that can't be read or upgraded is moved aside instead of being overwritten, and its backup is used if
+// there is one. Scans also point out the options that revalidate or discard the cache, which cache commands don't have.
+export const loadCache = async (forScan = true): Promise<CacheData> => {
+  let store: CacheStorage | null = null
+
   try {
-    await ensureCacheDir()
-    const cachePath = path.join(CACHE_DIR, CACHE_FILE)
-    await fs.writeFile(cachePath, JSON.stringify(cache, null, 2), 'utf-8')
+    store = await getStorage()
+    const stored = await store.load()
+    if (stored !== null) {
+      const cache = migrateCache(stored)
+      const storedVersion = (stored as { schemaVersion?: number }).schemaVersion ?? 1
+      if (storedVersion < CACHE_SCHEMA_VERSION) {
+        console.log(`Upgraded cache from schema version ${storedVersion} to ${CACHE_SCHEMA_VERSION}.`)
+        pendingChanges = allChanges(cache)
+      }
+      if (forScan) {
+        console.log(
+          `Loaded cache from ${store.path}. Use --force-refresh to revalidate it or --clear-cache to discard it.`,
+        )
+      }
+      return cache
+    }
+    await pointOutLegacyCache()
   } catch (error) {
-    console.error('Error saving cache:', error)
+    const reason = error instanceof Error ? error.message : String(error)
+    if (store) {
+      try {
+        const quarantinePath = await store.quarantine()
+        console.warn(`Cache in ${store.path} can't be used: ${reason}. Moved it to ${quarantinePath}.`)
+      } catch (quarantineError) {
+        console.error(`Cache in ${store.path} can't be used: ${reason}. Moving it aside failed:`, quarantineError)
+      }
+
+      const recovered = await recoverCache(store)
+      if (recovered) return recovered
+    } else {
+      console.error('Error loading cache:', error)
+    }
+  }
+
+  // If nothing was stored or the cache can't be used, return a new cache
+  console.log('No valid cache found. Starting fresh.')
+  return initializeCache()
+}
+
+// Save the entries that changed since the last save, returning how many were saved
+export const saveCache = (cache: CacheData): Promise<number> => {
+  // Taken now, as they're the changes that cache contains
+  const changes = pendingChanges
+  pendingChanges = emptyChanges()
+
+  const save = saving.then(async () => {
+    const count = countChanges(changes)
+    if (count === 0) return 0
+
+    try {
+      await (await getStorage()).save(cache, changes)
+      await lock?.refresh()
+      lastSave = Date.now()
+      return count
+    } catch (error) {
+      // Keep the changes for the next save
+      mergeChanges(pendingChanges, changes)
+      console.error('Error saving cache:', error)
+      return 0
+    }
+  })
+  saving = save
+  return save
+}
+
+// Number of changed entries waiting to be saved
+export const countPendingChanges = (): number => countChanges(pendingChanges)
+
+// Save the pending changes once enough of them have piled up or the last save is long enough ago,
+// rather than after every change. Returns how many were saved, 0 if the save isn't due yet.
+export const saveCacheIfDue = async (cache: CacheData): Promise<number> => {
+  const pending = countPendingChanges()
+  if (pending >= SAVE_MAX_PENDING || (pending > 0 && Date.now() - lastSave >= SAVE_INTERVAL)) {
+    return await saveCache(cache)
   }
+  return 0
 }
 
-// Clear cache by removing the cache file
+// Clear cache by removing everything from storage
 export const clearCache = async (): Promise<void> => {
   try {
-    const cachePath = path.join(CACHE_DIR, CACHE_FILE)
-    await fs.unlink(cachePath)
+    await (await getStorage()).clear()
+    pendingChanges = emptyChanges()
     console.log('Cache cleared successfully.')
   } catch (error) {
-    // If file doesn't exist, that's fine
-    if (error instanceof Error && (error as NodeJS.ErrnoException).code !== 'ENOENT') {
-      console.error('Error clearing cache:', error)
-    }
+    console.error('Error clearing cache:', error)
+  }
+}
+
+// Where the cache is stored
+export const getCachePath = async (): Promise<string> => {
+  return (await getStorage()).path
+}
+
+// Write a cache to a JSON file, for sharing it
+export const exportCache = async (cache: CacheData, filePath: string): Promise<void> => {
+  await createJsonStorage(filePath).save(cache, allChanges(cache))
+}
+
+// Read a cache exported with exportCache, upgrading it if it's from an older version
+export const readExportedCache = async (filePath: string): Promise<CacheData> => {
+  const stored = await createJsonStorage(filePath).load()
+  if (stored === null) {
+    throw new Error(`${filePath} doesn't exist`)
   }
+  return migrateCache(stored)
 }
 
 // Add/update specific owner's repositories in the cache
@@ -108,6 +298,7 @@ export const cacheOwnerRepositories = (
   cache: CacheData,
   owner: string,
   repositories: Repository[],
+  pages?: Record<string, PageValidator>,
 ): CacheData => {
   const newCache = { ...cache }
 
@@ -120,15 +311,87 @@ export const cacheOwnerRepositories = (
   newCache.ownerRepos[owner] = {
     data: repositories,
     timestamp: Date.now(),
+    pages,
   }
+  pendingChanges.ownerRepos.add(owner)
 
   // Also add each repository to the main repositories map
   repositories.forEach(repo => {
-    const repoKey = `${repo.owner.login}/${repo.name}`
+    const repoKey = repoKeyOf(repo)
     newCache.repositories[repoKey] = {
       ...newCache.repositories[repoKey],
       data: repo
     }
+    pendingChanges.repositories.add(repoKey)
+  })
+
+  return newCache
+}
+
+// Add a single repository to the cache, keeping what's cached for it already
+export const cacheRepository = (
+  cache: CacheData,
+  repository: Repository,
+): CacheData => {
+  const newCache = { ...cache }
+  const repoKey = repoKeyOf(repository)
+
+  newCache.repositories[repoKey] = {
+    ...newCache.repositories[repoKey],
+    data: repository,
+  }
+  pendingChanges.repositories.add(repoKey)
+
+  return newCache
+}
+
+// Cache the members of an organization
+export const cacheOrgMembers = (
+  cache: CacheData,
+  org: string,
+  members: string[],
+): CacheData => {
+  const newCache = { ...cache }
+
+  if (!newCache.orgMembers) {
+    newCache.orgMembers = {}
+  }
+
+  newCache.orgMembers[org] = {
+    data: members,
+    timestamp: Date.now(),
+  }
+  pendingChanges.orgMembers.add(org)
+
+  return newCache
+}
+
+// Cache the forks of a repository
+export const cacheForks = (
+  cache: CacheData,
+  repoKey: string,
+  forks: Repository[],
+): CacheData => {
+  const newCache = { ...cache }
+
+  if (!newCache.forks) {
+    newCache.forks = {}
+  }
+
+  newCache.forks[repoKey] = {
+    data: forks,
+    timestamp: Date.now(),
+  }
+  pendingChanges.forks.add(repoKey)
+
+  // Also add each fork to the main repositories map
+  forks.forEach(fork => {
+    const forkKey = repoKeyOf(fork)
+    newCache.repositories[forkKey] = {
+      ...newCache.repositories[forkKey],
+      data: fork,
+    }
+    pendingChanges.repositories.add(forkKey)
   })
 
   return newCache
@@ -147,65 +410,112 @@ export const cacheTopRepositories = (
     data: repositories,
     timestamp: Date.now(),
   }
+  pendingChanges.topRepos = true
 
   // Also add each repository to the main repositories map
   repositories.forEach(repo => {
-    const repoKey = `${repo.owner.login}/${repo.name}`
+    const repoKey = repoKeyOf(repo)
     newCache.repositories[repoKey] = {
       ...newCache.repositories[repoKey],
       data: repo
     }
+    pendingChanges.repositories.add(repoKey)
   })
 
   return newCache
 }
 
-// Cache branches for a repository
+// Cache branches for a repository; refQueries are the GraphQL ref queries that they were filtered by, if any
 export const cacheBranches = (
   cache: CacheData,
   owner: string,
   repo: string,
   branches: Branch[],
+  host?: string,
+  pages?: Record<string, PageValidator>,
+  refQueries: string[] = [],
 ): CacheData => {
   const newCache = { ...cache }
-  const repoKey = `${owner}/${repo}`
+  const repoKey = getRepoKey(owner, repo, host)
 
   if (!newCache.repositories[repoKey]) {
     newCache.repositories[repoKey] = {
-      data: { name: repo, owner: { login: owner }, url: `https://github.com/${owner}/${repo}` }
+      data: { name: repo, owner: { login: owner }, url: `https://${host ?? 'github.com'}/${owner}/${repo}`, host }
     }
   }
 
   newCache.repositories[repoKey].branches = branches
   newCache.repositories[repoKey].branchesTimestamp = Date.now()
+  newCache.repositories[repoKey].branchesPages = pages
+  newCache.repositories[repoKey].branchesRefQueries = refQueries.length > 0 ? [...refQueries].sort() : undefined
+  pendingChanges.repositories.add(repoKey)
+  pendingChanges.branches.add(repoKey)
 
   return newCache
 }
 
+// Latest updated_at of a list of pull requests, undefined if any of them doesn't have one
+const latestUpdate = (pullRequests: PullRequest[]): string | undefined => {
+  if (pullRequests.some(pr => !pr.updated_at)) return undefined
+
+  return pullRequests.reduce<string | undefined>(
+    (latest, pr) => !latest || Date.parse(pr.updated_at!) > Date.parse(latest) ? pr.updated_at : latest,
+    undefined,
+  )
+}
+
 // Cache pull requests for a repository
 export const cachePullRequests = (
   cache: CacheData,
   owner: string,
   repo: string,
-  pullRequests: PullRequest[],
+  pullRequests: PullRequest[], // Of every state
+  host?: string,
+  pages?: Record<string, PageValidator>,
 ): CacheData => {
   const newCache = { ...cache }
-  const repoKey = `${owner}/${repo}`
+  const repoKey = getRepoKey(owner, repo, host)
 
   if (!newCache.repositories[repoKey]) {
     newCache.repositories[repoKey] = {
-      data: { name: repo, owner: { login: owner }, url: `https://github.com/${owner}/${repo}` }
+      data: { name: repo, owner: { login: owner }, url: `https://${host ?? 'github.com'}/${owner}/${repo}`, host }
     }
   }
 
   newCache.repositories[repoKey].pullRequests = pullRequests
   newCache.repositories[repoKey].pullRequestsTimestamp = Date.now()
+  newCache.repositories[repoKey].pullRequestsComplete = true
+  newCache.repositories[repoKey].pullRequestsPages = pages
+  newCache.repositories[repoKey].pullRequestsCursor = latestUpdate(pullRequests)
+  pendingChanges.repositories.add(repoKey)
+  pendingChanges.pullRequests.add(repoKey)
 
   return newCache
 }
 
+// Cache pull requests found by a global search for one date window
+export const cacheSearchWindow = (
+  cache: CacheData,
+  windowKey: string,
+  results: SearchResult[],
+  complete: boolean,
+): CacheData => {
+  const newCache = { ...cache }
+
+  newCache.globalSearch = {
+    ...newCache.globalSearch,
+    [windowKey]: {
+      data: results,
+      complete,
+      timestamp: Date.now(),
+    },
+  }
+  pendingChanges.globalSearch.add(windowKey)
+
+  return newCache
+}
 
-// Save the owner type (organization or user)
+// Save the owner type (organization or user); owner is "owner" or "host/owner"
 export const saveOwnerType = (
   cache: CacheData,
   owner: string,
@@ -217,26 +527,300 @@ export const saveOwnerType = (
   Object.keys(newCache.repositories).forEach(repoKey => {
     if (repoKey.startsWith(`${owner}/`)) {
       newCache.repositories[repoKey].ownerType = isOrg ? 'organization' : 'user'
+      newCache.repositories[repoKey].ownerTypeTimestamp = Date.now()
+      pendingChanges.repositories.add(repoKey)
     }
   })
 
   return newCache
 }
 
+// Kinds of cached data that can be invalidated separately
+export type InvalidateKind = 'branches' | 'prs' | 'repos'
+
+// Copy of a keyed section without one key
+const withoutKey = <T>(section: Record<string, T> | undefined, key: string): Record<string, T> => {
+  const { [key]: _removed, ...rest } = section ?? {}
+  return rest
+}
+
+// Drop the cached branches, pull requests and/or forks ("repos") of a repository
+export const invalidateRepository = (cache: CacheData, repoKey: string, kinds: InvalidateKind[]): CacheData => {
+  const newCache = { ...cache }
+  const entry = cache.repositories[repoKey]
+
+  if (entry && (kinds.includes('branches') || kinds.includes('prs'))) {
+    const updated = { ...entry }
+    if (kinds.includes('branches')) {
+      delete updated.branches
+      delete updated.branchesTimestamp
+      delete updated.branchesPages
+      delete updated.branchesRefQueries
+      pendingChanges.branches.add(repoKey)
+    }
+    if (kinds.includes('prs')) {
+      delete updated.pullRequests
+      delete updated.pullRequestsTimestamp
+      delete updated.pullRequestsComplete
+      delete updated.pullRequestsCursor
+      delete updated.pullRequestsPages
+      pendingChanges.pullRequests.add(repoKey)
+    }
+    newCache.repositories = { ...cache.repositories, [repoKey]: updated }
+    pendingChanges.repositories.add(repoKey)
+  }
+
+  if (kinds.includes('repos') && cache.forks?.[repoKey]) {
+    newCache.forks = withoutKey(cache.forks, repoKey)
+    pendingChanges.forks.add(repoKey)
+  }
+
+  return newCache
+}
+
+// Drop the cached repository list ("repos") of an owner and/or the branches and pull requests of its repositories
+export const invalidateOwner = (cache: CacheData, ownerKey: string, kinds: InvalidateKind[]): CacheData => {
+  let newCache = { ...cache }
+
+  if (kinds.includes('repos')) {
+    if (cache.ownerRepos?.[ownerKey]) {
+      newCache.ownerRepos = withoutKey(cache.ownerRepos, ownerKey)
+      pendingChanges.ownerRepos.add(ownerKey)
+    }
+    if (cache.orgMembers?.[ownerKey]) {
+      newCache.orgMembers = withoutKey(cache.orgMembers, ownerKey)
+      pendingChanges.orgMembers.add(ownerKey)
+    }
+  }
+
+  for (const repoKey of Object.keys(cache.repositories)) {
+    if (repoKey.startsWith(`${ownerKey}/`)) {
+      newCache = invalidateRepository(newCache, repoKey, kinds.filter(kind => kind !== 'repos'))
+    }
+  }
+
+  return newCache
+}
+
+// Drop cached lists older than the given number of hours. Repositories themselves are kept.
+export const pruneCache = (cache: CacheData, olderThanHours: number): { cache: CacheData; pruned: number } => {
+  const isOld = (timestamp: number | undefined) => !isCacheValid(timestamp, olderThanHours)
+  let newCache = cache
+  let pruned = 0
+
+  for (const [repoKey, entry] of Object.entries(cache.repositories)) {
+    const kinds: InvalidateKind[] = []
+    if (entry.branches && isOld(entry.branchesTimestamp)) kinds.push('branches')
+    if (entry.pullRequests && isOld(entry.pullRequestsTimestamp)) kinds.push('prs')
+    if (kinds.length > 0) {
+      newCache = invalidateRepository(newCache, repoKey, kinds)
+      pruned += kinds.length
+    }
+  }
+
+  for (const section of ['ownerRepos', 'orgMembers', 'forks', 'globalSearch'] as const) {
+    for (const [key, entry] of Object.entries(cache[section] ?? {})) {
+      if (isOld(entry.timestamp)) {
+        newCache = { ...newCache, [section]: withoutKey<{ timestamp: number }>(newCache[section], key) }
+        pendingChanges[section].add(key)
+        pruned++
+      }
+    }
+  }
+
+  if (cache.topRepos && isOld(cache.topRepos.timestamp)) {
+    newCache = { ...newCache, topRepos: undefined }
+    pendingChanges.topRepos = true
+    pruned++
+  }
+
+  return { cache: newCache, pruned }
+}
+
+// Add the entries of another cache, e.g. an imported one. Where both have an entry, the newer one is kept.
+export const mergeCache = (cache: CacheData, other: CacheData): CacheData => {
+  const isNewer = (timestamp: number | undefined, than: number | undefined) => (timestamp ?? 0) > (than ?? 0)
+  const newCache: CacheData = { ...cache, repositories: { ...cache.repositories } }
+
+  for (const [repoKey, entry] of Object.entries(other.repositories)) {
+    const current = newCache.repositories[repoKey]
+    const merged = { ...entry, ...current }
+
+    if (!current || isNewer(entry.ownerTypeTimestamp, current.ownerTypeTimestamp)) {
+      merged.ownerType = entry.ownerType
+      merged.ownerTypeTimestamp = entry.ownerTypeTimestamp
+    }
+    if (entry.branches && (!current?.branches || isNewer(entry.branchesTimestamp, current.branchesTimestamp))) {
+      merged.branches = entry.branches
+      merged.branchesTimestamp = entry.branchesTimestamp
+      merged.branchesPages = entry.branchesPages
+      merged.branchesRefQueries = entry.branchesRefQueries
+    }
+    if (
+      entry.pullRequests
+      && (!current?.pullRequests || isNewer(entry.pullRequestsTimestamp, current.pullRequestsTimestamp))
+    ) {
+      merged.pullRequests = entry.pullRequests
+      merged.pullRequestsTimestamp = entry.pullRequestsTimestamp
+      merged.pullRequestsComplete = entry.pullRequestsComplete
+      merged.pullRequestsCursor = entry.pullRequestsCursor
+      merged.pullRequestsPages = entry.pullRequestsPages
+    }
+
+    newCache.repositories[repoKey] = merged
+    pendingChanges.repositories.add(repoKey)
+    pendingChanges.branches.add(repoKey)
+    pendingChanges.pullRequests.add(repoKey)
+  }
+
+  for (const section of ['ownerRepos', 'orgMembers', 'forks', 'globalSearch'] as const) {
+    const entries: Record<string, { timestamp: number }> = { ...cache[section] }
+    for (const [key, entry] of Object.entries(other[section] ?? {})) {
+      if (!entries[key] || isNewer(entry.timestamp, entries[key].timestamp)) {
+        entries[key] = entry
+        pendingChanges[section].add(key)
+      }
+    }
+    Object.assign(newCache, { [section]: entries })
+  }
+
+  if (other.topRepos && (!cache.topRepos || isNewer(other.topRepos.timestamp, cache.topRepos.timestamp))) {
+    newCache.topRepos = other.topRepos
+    pendingChanges.topRepos = true
+  }
+
+  // Keep both run histories
+  const runs = new Map([...cache.runs ?? [], ...other.runs ?? []].map(run => [run.startedAt, run]))
+  newCache.runs = Array.from(runs.values()).sort((a, b) => a.startedAt - b.startedAt)
+  pendingChanges.runs = true
+
+  return newCache
+}
+
 // Check if cache is valid based on timestamp and TTL
-// This function always returns true now (no TTL check) but we keep it for future flexibility
 export const isCacheValid = (timestamp: number | undefined, ttlHours = 24): boolean => {
   if (!timestamp) return false
 
-  // No longer using TTL - always return true if we have a timestamp
-  return true
+  return Date.now() - timestamp < ttlHours * 60 * 60 * 1000
+}
+
+// Kinds of cached data that expire separately.
+// "repos" covers every list of repositories or people: owner repositories, top repositories, forks and org members.
+export type CacheDataType = 'repos' | 'branches' | 'prs' | 'ownerType'
+
+// Default TTLs in hours
+export const DEFAULT_MAX_AGE: Record<CacheDataType, number> = {
+  repos: 7 * 24,
+  branches: 24,
+  prs: 24,
+  ownerType: 30 * 24,
 }
 
-// Update CLI options in cache
-export const updateCliOptions = (cache: CacheData, options: CliOptions): CacheData => {
+// Names accepted by --max-age
+const MAX_AGE_NAMES: Record<string, CacheDataType> = {
+  repos: 'repos',
+  branches: 'branches',
+  prs: 'prs',
+  'owner-type': 'ownerType',
+}
+
+const DURATION_UNITS_IN_HOURS: Record<string, number> = {
+  m: 1 / 60,
+  h: 1,
+  d: 24,
+  w: 7 * 24,
+}
+
+let maxAge: Record<CacheDataType, number> = { ...DEFAULT_MAX_AGE }
+
+// Data cached before this time is stale regardless of its age (set by --force-refresh)
+let staleBefore: number | undefined
+
+// Parse a duration like "6h" or "30d" (units: m, h, d, w) into hours, undefined if it's invalid
+export const parseDuration = (value: string): number | undefined => {
+  const match = value.match(/^(\d+(?:\.\d+)?)([mhdw])$/)
+  return match ? Number(match[1]) * DURATION_UNITS_IN_HOURS[match[2]] : undefined
+}
+
+// Parse TTL overrides in the format "branches=6h,prs=1d" (units: m, h, d, w)
+export const parseMaxAge = (spec: string): Partial<Record<CacheDataType, number>> => {
+  const overrides: Partial<Record<CacheDataType, number>> = {}
+
+  for (const entry of spec.split(',').map(part => part.trim()).filter(Boolean)) {
+    const match = entry.match(/^([a-z-]+)=(.*)$/)
+    const hours = match ? parseDuration(match[2]) : undefined
+    if (!match || !MAX_AGE_NAMES[match[1]] || hours === undefined) {
+      throw new Error(
+        `Invalid --max-age entry "${entry}". Use <type>=<number><m|h|d|w>, `
+          + `where type is one of ${Object.keys(MAX_AGE_NAMES).join(', ')}`,
+      )
+    }
+    overrides[MAX_AGE_NAMES[match[1]]] = hours
+  }
+
+  return overrides
+}
+
+// Override the default TTLs for this run
+export const setMaxAge = (overrides: Partial<Record<CacheDataType, number>>): void => {
+  maxAge = { ...DEFAULT_MAX_AGE, ...overrides }
+}
+
+// Treat everything cached so far as stale, so it's revalidated with conditional requests.
+// Data fetched later in the same run stays fresh.
+export const revalidateCache = (): void => {
+  staleBefore ??= Date.now()
+}
+
+// Check if cached data of the given type is still fresh
+export const isFresh = (timestamp: number | undefined, type: CacheDataType): boolean => {
+  if (staleBefore !== undefined && (timestamp ?? 0) < staleBefore) {
+    return false
+  }
+  return isCacheValid(timestamp, maxAge[type])
+}
+
+// Check if a repository has cached branches that a run can use: all branches serve every run, branches filtered
+// by GraphQL ref queries only runs with the same queries
+export const hasBranchesFor = (cache: CacheData, repoKey: string, refQueries: string[] = []): boolean => {
+  const entry = cache.repositories[repoKey]
+  if (!entry?.branches) return false
+
+  const filteredBy = entry.branchesRefQueries
+  return !filteredBy
+    || (filteredBy.length === refQueries.length && refQueries.every(query => filteredBy.includes(query)))
+}
+
+// Check if a repository has branches in the cache that haven't expired and that a run can use (see hasBranchesFor)
+export const hasFreshBranches = (cache: CacheData, repoKey: string, refQueries: string[] = []): boolean =>
+  hasBranchesFor(cache, repoKey, refQueries) && isFresh(cache.repositories[repoKey].branchesTimestamp, 'branches')
+
+// Check if a repository has a complete list of pull requests in the cache that hasn't expired
+export const hasFreshPullRequests = (cache: CacheData, repoKey: string): boolean => {
+  const entry = cache.repositories[repoKey]
+  return !!entry?.pullRequests && !!entry.pullRequestsComplete && isFresh(entry.pullRequestsTimestamp, 'prs')
+}
+
+// Add a run to the run history
+export const addRun = (cache: CacheData, options: CliOptions, startedAt = Date.now()): CacheData => {
+  pendingChanges.runs = true
+
   return {
     ...cache,
-    cliOptions: options,
-    timestamp: Date.now(),
+    timestamp: startedAt,
+    runs: [...cache.runs ?? [], { startedAt, options }],
+  }
+}
+
+// Record the end of the run started at startedAt, or of the latest run without it
+export const endRun = (cache: CacheData, startedAt?: number): CacheData => {
+  const runs = cache.runs ?? []
+  const index = startedAt === undefined ? runs.length - 1 : runs.findIndex(run => run.startedAt === startedAt)
+  if (index < 0) return cache
+  pendingChanges.runs = true
+
+  return {
+    ...cache,
+    runs: runs.map((run, runIndex) => runIndex === index ? { ...run, finishedAt: Date.now() } : run),
   }
 }
@@ -1,16 +1,86 @@
 import yargs from 'yargs'
 import { hideBin } from 'yargs/helpers'
+import { type InvalidateKind, parseDuration, parseMaxAge } from './cache.js'
+import { parseForgeSpec } from './forge.js'
+import { STORAGE_KINDS, type StorageKind } from './storage.js'
 
 // CLI Options interface
 export interface CliOptions {
   owners: string[]
   repos: string[]
+  forges: string[]
+  forksOf: string[]
+  forkDepth: number
+  forkMinStars: number
+  local: string[]
+  orgMembers: string[]
+  memberMaxRepos: number
   topRepos?: number
   maxRepos?: number
+  concurrency: number
+  tokenFile?: string
+  dryRun: boolean
+  resume?: string // Run ID, empty for the latest unfinished run
   includePrs: boolean
   prStatus: 'open' | 'closed' | 'all'
+  api: 'rest' | 'graphql'
+  globalSearch: boolean
+  searchSince: string
+  patterns: string[]
+  config?: string
+  strict: boolean
+  minConfidence: number
+  maxAge?: string
+  record?: string
+  replay?: string
   forceRefresh: boolean
   clearCache: boolean
+  storage: StorageKind
+  cacheDir?: string
+  profile?: string
+}
+
+// Cache subcommands, see maintenance.ts
+export type CacheCommand =
+  | { action: 'stats' }
+  | { action: 'ls'; owner?: string }
+  | { action: 'invalidate'; target: string; only: InvalidateKind[] }
+  | { action: 'prune'; olderThan: number; duration: string } // olderThan in hours, duration as given, e.g. "30d"
+  | { action: 'export'; file: string }
+  | { action: 'import'; file: string }
+
+export interface CacheCommandOptions {
+  command: CacheCommand
+  storage: StorageKind
+  cacheDir?: string
+  profile?: string
+}
+
+const INVALIDATE_KINDS: InvalidateKind[] = ['branches', 'prs', 'repos']
+
+// Shared by searches and cache subcommands
+const CACHE_OPTIONS = {
+  storage: {
+    type: 'string',
+    description: 'Where to keep the cache: a SQLite database (needs Node.js 22.5 or later) or a single JSON file',
+    choices: STORAGE_KINDS,
+    default: 'sqlite',
+  },
+  'cache-dir': {
+    type: 'string',
+    description: 'Directory of the cache (default: $FIND_JUJU_CACHE_DIR, or find-juju-users in ~/.cache)',
+  },
+  profile: {
+    type: 'string',
+    description: 'Named cache, e.g. "our-org-weekly": each profile keeps its own cache and run history',
+  },
+} as const
+
+// Profile names become directory names
+const checkProfile = (profile: string | undefined): void => {
+  if (profile !== undefined && !/^\w[\w.-]*$/.test(profile)) {
+    throw new Error(`Invalid profile name: "${profile}". Use letters, digits, "_", "-" and "."`)
+  }
 }
 
 // Parse command line arguments
@@ -19,14 +89,61 @@ export const parseArgs = () => {
     .option('owner', {
       type: 'string',
       description:
-        'GitHub organization or user to process (can be used multiple times, automatically detects if owner is an org or user)',
+        'Organization or user to process, optionally prefixed with a forge host like "gitlab.com/group" (can be used multiple times, automatically detects if owner is an org or user)',
       demandOption: false,
       array: true,
       default: [],
     })
     .option('repo', {
       type: 'string',
-      description: 'Specific repository to process in the format "owner/repo" (can be used multiple times)',
+      description:
+        'Specific repository to process in the format "owner/repo" or "host/owner/repo" (can be used multiple times)',
+      demandOption: false,
+      array: true,
+      default: [],
+    })
+    .option('forge', {
+      type: 'string',
+      description:
+        'Self-hosted forge in the format "host=kind" or "host=kind:baseUrl", kind being github, gitlab, gitea or forgejo (can be used multiple times)',
+      demandOption: false,
+      array: true,
+      default: [],
+    })
+    .option('forks-of', {
+      type: 'string',
+      description:
+        'Scan the forks of a repository, in the format "owner/repo" or "host/owner/repo" (can be used multiple times)',
+      demandOption: false,
+      array: true,
+      default: [],
+    })
+    .option('fork-depth', {
+      type: 'number',
+      description: 'How many levels of the fork network to scan with --forks-of (1 only scans direct forks)',
+      default: 1,
+    })
+    .option('fork-min-stars', {
+      type: 'number',
+      description: 'Skip forks with fewer stars than this with --forks-of',
+      default: 0,
+    })
+    .option('org-members', {
+      type: 'string',
+      description:
+        'Scan the personal repositories of the public members of an organization and report adoption per member (can be used multiple times)',
+      demandOption: false,
+      array: true,
+      default: [],
+    })
+    .option('member-max-repos', {
+      type: 'number',
+      description: 'Maximum number of personal repositories to scan per member with --org-members',
+      default: 30,
+    })
+    .option('local', {
+      type: 'string',
+      description: 'Path of a local clone or bare mirror to read branches from, without API calls (can be used multiple times)',
       demandOption: false,
       array: true,
       default: [],
@@ -41,6 +158,26 @@ export const parseArgs = () => {
       description: 'Maximum number of repositories to process',
       demandOption: false,
     })
+    .option('concurrency', {
+      type: 'number',
+      description: 'Number of repositories to fetch branches and pull requests for at the same time',
+      default: 4,
+    })
+    .option('token-file', {
+      type: 'string',
+      description: 'File with GitHub tokens to spread requests over, one per line (instead of GITHUB_TOKENS)',
+      demandOption: false,
+    })
+    .option('dry-run', {
+      type: 'boolean',
+      description: 'List the repositories and estimate the requests and time the scan needs, without scanning them',
+      default: false,
+    })
+    .option('resume', {
+      type: 'string',
+      description: 'Continue an interrupted run, the latest one or the one with the given run ID, with its options',
+      demandOption: false,
+    })
     .option('include-prs', {
       type: 'boolean',
       description: 'Include pull requests in the search',
@@ -52,9 +189,65 @@ export const parseArgs = () => {
       choices: ['open', 'closed', 'all'],
       default: 'all',
     })
+    .option('api', {
+      type: 'string',
+      description: 'GitHub API to fetch branches and pull requests with (graphql fetches several repositories per request)',
+      choices: ['rest', 'graphql'],
+      default: 'rest',
+    })
+    .option('global-search', {
+      type: 'boolean',
+      description: 'Search all of GitHub for pull requests whose head branch starts with "push-"',
+      default: false,
+    })
+    .option('search-since', {
+      type: 'string',
+      description: 'Earliest PR creation date to include in the global search (YYYY-MM-DD)',
+      default: '2020-01-01',
+    })
+    .option('pattern', {
+      type: 'string',
+      description:
+        'Additional branch pattern in the format "name=regex" (can be used multiple times). The username is taken from the named group "user" or the first capture group',
+      demandOption: false,
+      array: true,
+      default: [],
+    })
+    .option('config', {
+      type: 'string',
+      description: 'Path to a JSON config file with additional branch patterns',
+      demandOption: false,
+    })
+    .option('strict', {
+      type: 'boolean',
+      description: 'Only accept jj branches whose change id uses the real change-id alphabet (k-z)',
+      default: false,
+    })
+    .option('min-confidence', {
+      type: 'number',
+      description: 'Only report matches with at least this confidence score (0 to 1)',
+      default: 0,
+    })
+    .option('max-age', {
+      type: 'string',
+      description:
+        'Maximum age of cached data per type before it is refetched, e.g. "branches=6h,prs=1d" (types: repos, branches, prs, owner-type)',
+      demandOption: false,
+    })
+    .option('record', {
+      type: 'string',
+      description: 'Record all GitHub API requests and responses as fixtures in this directory',
+      demandOption: false,
+      conflicts: 'replay',
+    })
+    .option('replay', {
+      type: 'string',
+      description: 'Serve GitHub API requests from fixtures recorded with --record, without using the network',
+      demandOption: false,
+    })
     .option('force-refresh', {
       type: 'boolean',
-      description: 'Force refreshing data from GitHub, ignoring cache',
+      description: 'Revalidate all cached data with conditional requests, refetching only what changed',
       default: false,
     })
     .option('clear-cache', {
@@ -62,26 +255,64 @@ export const parseArgs = () => {
       description: 'Clear the cache before running',
       default: false,
     })
+    .options(CACHE_OPTIONS)
     .check((argv) => {
-      // Ensure we have at least one source of repositories
-      if (argv.owner.length === 0 && argv.repo.length === 0 && !argv['top-repos']) {
-        throw new Error('At least one of --owner, --repo, or --top-repos must be specified')
+      // Ensure we have at least one source of repositories; a resumed run has those it was started with
+      if (
+        argv.resume === undefined && argv.owner.length === 0 && argv.repo.length === 0 && argv['forks-of'].length === 0
+        && argv['org-members'].length === 0 && argv.local.length === 0 && !argv['top-repos'] && !argv['global-search']
+      ) {
+        throw new Error(
+          'At least one of --owner, --repo, --forks-of, --org-members, --local, --top-repos or --global-search must be specified',
+        )
+      }
+
+      if (!Number.isInteger(argv['fork-depth']) || argv['fork-depth'] < 1) {
+        throw new Error('--fork-depth must be a positive integer')
+      }
+
+      if (!Number.isInteger(argv.concurrency) || argv.concurrency < 1) {
+        throw new Error('--concurrency must be a positive integer')
+      }
+
+      if (Number.isNaN(Date.parse(argv['search-since']))) {
+        throw new Error(`Invalid date for --search-since: "${argv['search-since']}". Use the format YYYY-MM-DD`)
       }
 
-      // Validate repo format (owner/repo)
-      if (argv.repo && argv.repo.length > 0) {
-        for (const repo of argv.repo as string[]) {
-          if (!repo || !repo.includes('/') || repo.split('/').length !== 2) {
-            throw new Error(`Invalid repository format: "${repo}". Use the format "owner/repo"`)
+      // Validate forge format (host=kind[:baseUrl]), parseForgeSpec throws on invalid input
+      for (const forge of argv.forge as string[]) {
+        parseForgeSpec(forge)
+      }
+
+      // Validate repo format (owner/repo or host/owner/repo)
+      if (argv.repo.length > 0 || argv['forks-of'].length > 0) {
+        for (const repo of [...argv.repo, ...argv['forks-of']] as string[]) {
+          // Only hosts contain dots; GitLab repositories may be nested in subgroups
+          const segments = repo ? repo.split('/') : []
+          const minSegments = segments[0]?.includes('.') ? 3 : 2
+          const maxSegments = minSegments === 3 ? Infinity : 2
+          if (segments.some(segment => !segment) || segments.length < minSegments || segments.length > maxSegments) {
+            throw new Error(`Invalid repository format: "${repo}". Use the format "owner/repo" or "host/owner/repo"`)
           }
         }
       }
 
+      if (argv['max-age'] !== undefined) {
+        parseMaxAge(argv['max-age']) // Throws on invalid input
+      }
+
+      const minConfidence = argv['min-confidence']
+      if (Number.isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+        throw new Error('--min-confidence must be a number between 0 and 1')
+      }
+
+      checkProfile(argv.profile)
+
       return true
     })
     .help()
     .alias('help', 'h')
-    .argv
+    .parseSync()
 }
 
 // Get CLI options
@@ -90,11 +321,120 @@ export const getCliOptions = (): CliOptions => {
   return {
     owners: argv.owner as string[],
     repos: argv.repo as string[],
+    forges: argv.forge as string[],
+    forksOf: argv['forks-of'] as string[],
+    forkDepth: argv['fork-depth'] as number,
+    forkMinStars: argv['fork-min-stars'] as number,
+    local: argv.local as string[],
+    orgMembers: argv['org-members'] as string[],
+    memberMaxRepos: argv['member-max-repos'] as number,
     topRepos: argv['top-repos'] as number | undefined,
     maxRepos: argv['max-repos'] as number | undefined,
+    concurrency: argv.concurrency as number,
+    tokenFile: argv['token-file'] as string | undefined,
+    dryRun: argv['dry-run'] as boolean,
+    resume: argv.resume as string | undefined,
     includePrs: argv['include-prs'] as boolean,
     prStatus: argv['pr-status'] as 'open' | 'closed' | 'all',
+    api: argv.api as 'rest' | 'graphql',
+    globalSearch: argv['global-search'] as boolean,
+    searchSince: argv['search-since'] as string,
+    patterns: argv.pattern as string[],
+    config: argv.config as string | undefined,
+    strict: argv.strict as boolean,
+    minConfidence: argv['min-confidence'] as number,
+    maxAge: argv['max-age'] as string | undefined,
+    record: argv.record as string | undefined,
+    replay: argv.replay as string | undefined,
     forceRefresh: argv['force-refresh'] as boolean,
     clearCache: argv['clear-cache'] as boolean,
+    storage: argv.storage as StorageKind,
+    cacheDir: argv['cache-dir'] as string | undefined,
+    profile: argv.profile as string | undefined,
+  }
+}
+
+// Whether the command line is a cache subcommand ("cache stats", ...) instead of a search
+export const isCacheCommand = (): boolean => hideBin(process.argv)[0] === 'cache'
+
+// Parse the command line of a cache subcommand
+export const getCacheCommandOptions = (): CacheCommandOptions => {
+  const argv = yargs(hideBin(process.argv))
+    .command('cache', 'Inspect and manage the cache', cache =>
+      cache
+        .command('stats', 'Show counts, ages and size of the cached data')
+        .command('ls [owner]', 'List cached repositories, optionally of one owner', ls =>
+          ls.positional('owner', {
+            type: 'string',
+            description: 'Owner, optionally prefixed with a forge host like "gitlab.com/group"',
+          }))
+        .command('invalidate <target>', 'Drop cached data of a repository ("owner/repo") or an owner', invalidate =>
+          invalidate
+            .positional('target', {
+              type: 'string',
+              description: 'Repository or owner, optionally prefixed with a forge host',
+              demandOption: true,
+            })
+            .option('only', {
+              type: 'string',
+              description:
+                'Kinds of data to drop (default: all): branches, prs, or repos (owner repository lists and forks)',
+              choices: INVALIDATE_KINDS,
+              array: true,
+            }))
+        .command('prune', 'Drop cached data older than --older-than', prune =>
+          prune
+            .option('older-than', {
+              type: 'string',
+              description: 'Age of the data to drop, e.g. "30d" (units: m, h, d, w)',
+              demandOption: true,
+            })
+            .check(argv => {
+              if (parseDuration(argv['older-than']) === undefined) {
+                throw new Error(`Invalid duration for --older-than: "${argv['older-than']}". Use e.g. 12h or 30d`)
+              }
+              return true
+            }))
+        .command('export <file>', 'Write the cache to a JSON file', exportCommand =>
+          exportCommand.positional('file', { type: 'string', demandOption: true }))
+        .command(
+          'import <file>',
+          'Merge a cache written by "cache export" into this one, keeping newer data',
+          importCommand => importCommand.positional('file', { type: 'string', demandOption: true }),
+        )
+        .demandCommand(1, 'Specify a cache command'))
+    .options(CACHE_OPTIONS)
+    .check(argv => {
+      checkProfile(argv.profile)
+      return true
+    })
+    .strict()
+    .help()
+    .alias('help', 'h')
+    .parseSync()
+
+  const action = argv._[1] as CacheCommand['action']
+  const commands: Record<CacheCommand['action'], () => CacheCommand> = {
+    stats: () => ({ action: 'stats' }),
+    ls: () => ({ action: 'ls', owner: argv.owner as string | undefined }),
+    invalidate: () => ({
+      action: 'invalidate',
+      target: argv.target as string,
+      only: (argv.only as InvalidateKind[] | undefined) ?? INVALIDATE_KINDS,
+    }),
+    prune: () => ({
+      action: 'prune',
+      olderThan: parseDuration(argv['older-than'] as string)!,
+      duration: argv['older-than'] as string,
+    }),
+    export: () => ({ action: 'export', file: argv.file as string }),
+    import: () => ({ action: 'import', file: argv.file as string }),
+  }
+
+  return {
+    command: commands[action](),
+    storage: argv.storage as StorageKind,
+    cacheDir: argv['cache-dir'] as string | undefined,
+    profile: argv.profile as string | undefined,
   }
 }
@@ -0,0 +1,260 @@
+import { type CacheData, hasFreshBranches, hasFreshPullRequests } from './cache.js'
+import type { CliOptions } from './cli.js'
+import { DEFAULT_HOST, getProvider, repoKeyOf } from './forge.js'
+import { GRAPHQL_BATCH_SIZE, type Repository } from './github.js'
+import { checkRateLimit } from './providers/github.js'
+import { getBudget, type RateLimitBudget } from './ratelimit.js'
+import { isReplaying } from './recorder.js'
+import { getPoolBudget, hasTokenPool } from './tokens.js'
+
+// What the branch or pull request phase of a scan needs
+export interface PhaseEstimate {
+  cached: number // Repositories served from the cache
+  revalidated: number // Repositories with stale cached data, revalidated with conditional requests
+  fetched: number // Repositories without cached data
+  skipped: number // Repositories beyond --max-repos
+  requests: Record<string, number> // By rate limit budget, e.g. "github.com/core"
+}
+
+export interface ScanEstimate {
+  repositories: number
+  branches: PhaseEstimate
+  pullRequests?: PhaseEstimate // Only with --include-prs
+}
+
+// Typical time of an API request, for the time a scan takes without waiting for rate limits
+const REQUEST_TIME = 500
+
+// GitHub's rate limits reset every hour
+const RATE_LIMIT_WINDOW = 60 * 60 * 1000
+
+/**
+ * Average number of items in the cached lists, for repositories whose lists aren't cached; 0 without any
+ */
+function averageCachedItems(cache: CacheData, list: 'branches' | 'pullRequests'): number {
+  const lengths = Object.values(cache.repositories).flatMap(entry => entry[list] ? [entry[list]!.length] : [])
+  return lengths.length > 0 ? lengths.reduce((sum, length) => sum + length, 0) / lengths.length : 0
+}
+
+/**
+ * Number of requests to list a number of items; listing nothing takes a request too
+ */
+function pageCount(items: number, pageSize: number): number {
+  return Math.max(1, Math.ceil(items / pageSize))
+}
+
+/**
+ * Adds requests to the count of a rate limit budget
+ */
+function addRequests(phase: PhaseEstimate, host: string | undefined, resource: string, count: number): void {
+  const key = `${host ?? DEFAULT_HOST}/${resource}`
+  phase.requests[key] = (phase.requests[key] ?? 0) + count
+}
+
+/**
+ * Splits repositories like the search phases do: fresh ones come from the cache, and only as many of the others as
+ * --max-repos leaves room for are fetched
+ */
+function splitRepositories(
+  options: CliOptions,
+  repositories: Repository[],
+  isCached: (repo: Repository) => boolean,
+): { cached: Repository[]; inLimit: Repository[]; skipped: number } {
+  const cached = repositories.filter(isCached)
+  const toFetch = repositories.filter(repo => !isCached(repo))
+  const remaining = options.maxRepos ? Math.max(options.maxRepos - cached.length, 0) : toFetch.length
+  const inLimit = toFetch.slice(0, remaining)
+
+  return { cached, inLimit, skipped: toFetch.length - inLimit.length }
+}
+
+/**
+ * Estimates the requests that the branch and pull request phases of a scan need for the given repositories, and how
+ * many of the repositories the cache covers. Lists that aren't cached are assumed to be as long as the cached ones
+ * are on average.
+ * @param refQueries GraphQL ref queries of the scan, see hasFreshBranches
+ */
+export function estimateScan(
+  options: CliOptions,
+  repositories: Repository[],
+  cache: CacheData,
+  refQueries: string[] = [],
+): ScanEstimate {
+  const averageBranches = averageCachedItems(cache, 'branches')
+  const averagePullRequests = averageCachedItems(cache, 'pullRequests')
+
+  const branchRepos = splitRepositories(
+    options,
+    repositories,
+    repo => hasFreshBranches(cache, repoKeyOf(repo), refQueries),
+  )
+  const branches: PhaseEstimate = {
+    cached: branchRepos.cached.length,
+    revalidated: 0,
+    fetched: 0,
+    skipped: branchRepos.skipped,
+    requests: {},
+  }
+
+  // With the GraphQL backend, github.com repositories are fetched in batches, along with their pull requests
+  const batched = new Set(
+    options.api === 'graphql' ? branchRepos.inLimit.filter(repo => !repo.host).map(repoKeyOf) : [],
+  )
+  if (batched.size > 0) {
+    addRequests(branches, undefined, 'graphql', Math.ceil(batched.size / GRAPHQL_BATCH_SIZE))
+  }
+
+  for (const repo of branchRepos.inLimit) {
+    const cached = cache.repositories[repoKeyOf(repo)]?.branches
+    if (cached) {
+      branches.revalidated++
+    } else {
+      branches.fetched++
+    }
+
+    if (!batched.has(repoKeyOf(repo))) {
+      const pages = pageCount(cached?.length ?? averageBranches, getProvider(repo.host).pageSize)
+      addRequests(branches, repo.host, 'core', pages)
+    }
+  }
+
+  if (!options.includePrs) {
+    return { repositories: repositories.length, branches }
+  }
+
+  // Repositories fetched with GraphQL in the branch phase are cached by the time the pull request phase starts
+  const prRepos = splitRepositories(
+    options,
+    repositories,
+    repo => hasFreshPullRequests(cache, repoKeyOf(repo)) || batched.has(repoKeyOf(repo)),
+  )
+  const pullRequests: PhaseEstimate = {
+    cached: prRepos.cached.length,
+    revalidated: 0,
+    fetched: 0,
+    skipped: prRepos.skipped,
+    requests: {},
+  }
+
+  for (const repo of prRepos.inLimit) {
+    const cached = cache.repositories[repoKeyOf(repo)]
+    const pageSize = getProvider(repo.host).pageSize
+
+    if (cached?.pullRequests && cached.pullRequestsComplete && cached.pullRequestsCursor) {
+      // Incremental sync: usually a single page of recently updated pull requests
+      pullRequests.revalidated++
+      addRequests(pullRequests, repo.host, 'core', 1)
+    } else if (cached?.pullRequests) {
+      pullRequests.revalidated++
+      addRequests(pullRequests, repo.host, 'core', pageCount(cached.pullRequests.length, pageSize))
+    } else {
+      pullRequests.fetched++
+      addRequests(pullRequests, repo.host, 'core', pageCount(averagePullRequests, pageSize))
+    }
+  }
+
+  return { repositories: repositories.length, branches, pullRequests }
+}
+
+/**
+ * Estimates how long a number of requests against one rate limit take: the requests themselves, spread over
+ * --concurrency workers, and the waits for resets once the budget is used up
+ * @param budget What is left of the rate limit; without one the requests aren't limited
+ */
+export function estimateDuration(
+  requests: number,
+  concurrency: number,
+  budget?: RateLimitBudget,
+  now = Date.now(),
+): number {
+  const working = Math.ceil(requests / concurrency) * REQUEST_TIME
+  if (!budget || budget.limit === 0) return working
+
+  // A budget whose reset has passed is full again, until an hour after its next use
+  const [remaining, nextReset] = budget.resetAt > now
+    ? [budget.remaining, budget.resetAt]
+    : [budget.limit, now + RATE_LIMIT_WINDOW]
+  if (requests <= remaining) return working
+
+  // The requests beyond the budget run in the following windows, the last of them possibly only partly
+  const windows = Math.ceil((requests - remaining) / budget.limit)
+  const lastWindowRequests = requests - remaining - (windows - 1) * budget.limit
+  const waited = nextReset - now + (windows - 1) * RATE_LIMIT_WINDOW
+
+  return Math.max(working, waited + Math.ceil(lastWindowRequests / concurrency) * REQUEST_TIME)
+}
+
+/**
+ * Formats a duration, e.g. "2h 05m", "12m" or "less than a minute"
+ */
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 1) return 'less than a minute'
+  if (minutes < 60) return `${minutes}m`
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`
+}
+
+/**
+ * The current budget of a rate limit key, e.g. "github.com/core", over all tokens of the pool if there is one
+ */
+function currentBudget(key: string): RateLimitBudget | undefined {
+  const [host, resource] = key.split('/')
+  return host === DEFAULT_HOST && hasTokenPool() ? getPoolBudget(host, resource) : getBudget(key)
+}
+
+/**
+ * Formats one phase, e.g. "120 cached, 30 to revalidate, 380 to fetch, ~450 requests"
+ */
+function formatPhase(phase: PhaseEstimate): string {
+  const requests = Object.values(phase.requests).reduce((sum, count) => sum + count, 0)
+  return `${phase.cached} cached, ${phase.revalidated} to revalidate, ${phase.fetched} to fetch`
+    + (phase.skipped > 0 ? `, ${phase.skipped} beyond --max-repos` : '')
+    + `, ~${requests} requests`
+}
+
+/**
+ * Prints an estimate and the time the scan is expected to take under the current rate limit budgets.
+ * If no request has told the github.com budget yet, it is asked for first.
+ */
+export async function printEstimate(options: CliOptions, estimate: ScanEstimate): Promise<void> {
+  const phases = [estimate.branches, ...estimate.pullRequests ? [estimate.pullRequests] : []]
+  const requests: Record<string, number> = {}
+  for (const phase of phases) {
+    for (const [key, count] of Object.entries(phase.requests)) {
+      requests[key] = (requests[key] ?? 0) + count
+    }
+  }
+
+  const needsGitHubBudget = Object.keys(requests).some(key => key.startsWith(`${DEFAULT_HOST}/`) && !currentBudget(key))
+  if (needsGitHubBudget && !isReplaying()) {
+    await checkRateLimit().catch(error => console.warn('Could not check the GitHub rate limit:', error.message))
+  }
+
+  console.log(`\nDry run: ${estimate.repositories} repositories`)
+  console.log(`  Branches: ${formatPhase(estimate.branches)}`)
+  if (estimate.pullRequests) {
+    console.log(`  Pull requests: ${formatPhase(estimate.pullRequests)}`)
+  }
+
+  const total = Object.values(requests).reduce((sum, count) => sum + count, 0)
+  let duration = estimateDuration(total, options.concurrency)
+
+  for (const [key, count] of Object.entries(requests).sort()) {
+    const budget = currentBudget(key)
+    if (!budget) {
+      console.log(`  ${key}: ~${count} requests, rate limit unknown`)
+      continue
+    }
+
+    console.log(
+      `  ${key}: ~${count} requests, ${budget.remaining}/${budget.limit} left until `
+        + new Date(budget.resetAt).toLocaleTimeString(),
+    )
+    duration = Math.max(duration, estimateDuration(count, options.concurrency, budget))
+  }
+
+  if (options.globalSearch) {
+    console.log('  The global search is not included in the estimate.')
+  }
+  console.log(`Expected time: ${formatDuration(duration)}. Nothing was fetched for branches or pull requests.`)
+}
@@ -0,0 +1,226 @@
+import type { Branch, PullRequest, Repository } from './github.js'
+import { createGiteaProvider } from './providers/gitea.js'
+import { createGitHubProvider } from './providers/github.js'
+import { createGitLabProvider } from './providers/gitlab.js'
+
+export type OwnerKind = 'organization' | 'user'
+
+export type ForgeKind = 'github' | 'gitlab' | 'gitea'
+
+// Validators of one page of a list endpoint, and where its items are in the listing
+export interface PageValidator {
+  etag?: string
+  lastModified?: string
+  offset: number
+  count: number
+}
+
+/**
+ * Lets a provider revalidate a previous listing with conditional requests.
+ * Pages that haven't changed are taken from the previous listing instead of being downloaded.
+ */
+export interface ConditionalListing<T> {
+  previous: T[] // Result of the previous listing
+  previousPages: Record<string, PageValidator> // Validators of its pages, by page URL
+  pages: Record<string, PageValidator> // Filled in with the validators of the new listing's pages
+}
+
+/**
+ * A source of repositories, branches and pull requests (GitHub, GitLab, Gitea/Forgejo, ...)
+ *
+ * Providers make API calls only; caching is done by the callers in github.ts.
+ * Errors are thrown as-is. Providers without conditional requests ignore the conditional listings.
+ */
+export interface ForgeProvider {
+  host: string
+  kind: ForgeKind
+  pageSize: number // Items per page of the list endpoints
+  ownerKind(owner: string): Promise<OwnerKind>
+  listOwnerRepos(owner: string, kind: OwnerKind, conditional?: ConditionalListing<Repository>): Promise<Repository[]>
+  listOrgMembers(org: string): Promise<string[]>
+  getRepo(owner: string, repo: string): Promise<Repository>
+  listForks(owner: string, repo: string): Promise<Repository[]>
+  listBranches(owner: string, repo: string, conditional?: ConditionalListing<Branch>): Promise<Branch[]>
+  // With since (an ISO date), only pull requests updated after it are returned
+  listPullRequests(
+    owner: string,
+    repo: string,
+    prStatus: 'open' | 'closed' | 'all',
+    since?: string,
+    conditional?: ConditionalListing<PullRequest>,
+  ): Promise<PullRequest[]>
+}
+
+/**
+ * Prepares the revalidation of a cached listing; without validators every page is downloaded
+ */
+export function conditionalListing<T>(
+  previous?: T[],
+  previousPages?: Record<string, PageValidator>,
+): ConditionalListing<T> {
+  return {
+    previous: previous ?? [],
+    previousPages: previous ? previousPages ?? {} : {},
+    pages: {},
+  }
+}
+
+/**
+ * Where a forge lives and which API it speaks
+ */
+export interface ForgeConfig {
+  host: string
+  kind: ForgeKind
+  baseUrl: string // API base URL
+}
+
+// The default host; repositories on it have no host prefix in specs and cache keys
+export const DEFAULT_HOST = 'github.com'
+
+// Forges that are recognized without configuration
+const KNOWN_FORGES: ForgeConfig[] = [
+  { host: 'github.com', kind: 'github', baseUrl: 'https://api.github.com' },
+  { host: 'gitlab.com', kind: 'gitlab', baseUrl: 'https://gitlab.com/api/v4' },
+  { host: 'codeberg.org', kind: 'gitea', baseUrl: 'https://codeberg.org/api/v1' },
+]
+
+// Forge aliases accepted by --forge
+const FORGE_KINDS: Record<string, ForgeKind> = {
+  github: 'github',
+  ghe: 'github',
+  gitlab: 'gitlab',
+  gitea: 'gitea',
+  forgejo: 'gitea',
+}
+
+const forgeConfigs = new Map<string, ForgeConfig>(KNOWN_FORGES.map(config => [config.host, config]))
+const providers = new Map<string, ForgeProvider>()
+
+/**
+ * Default API base URL for a self-hosted forge
+ */
+function defaultBaseUrl(host: string, kind: ForgeKind): string {
+  switch (kind) {
+    case 'github':
+      return `https://${host}/api/v3` // GitHub Enterprise Server
+    case 'gitlab':
+      return `https://${host}/api/v4`
+    case 'gitea':
+      return `https://${host}/api/v1`
+  }
+}
+
+/**
+ * Parses a forge given on the command line, in the format "host=kind" or "host=kind:baseUrl"
+ */
+export function parseForgeSpec(spec: string): ForgeConfig {
+  const match = spec.match(/^([^=]+)=([a-z]+)(?::(.+))?$/)
+  if (!match || !FORGE_KINDS[match[2]]) {
+    throw new Error(
+      `Invalid forge "${spec}". Use the format "host=kind" or "host=kind:baseUrl", `
+        + `where kind is one of ${Object.keys(FORGE_KINDS).join(', ')}`,
+    )
+  }
+
+  const [, host, kindName, baseUrl] = match
+  const kind = FORGE_KINDS[kindName]
+  return { host, kind, baseUrl: (baseUrl ?? defaultBaseUrl(host, kind)).replace(/\/+$/, '') }
+}
+
+/**
+ * Registers self-hosted forges (GitHub Enterprise, GitLab, Gitea/Forgejo)
+ */
+export function configureForges(specs: string[]): void {
+  for (const spec of specs) {
+    const config = parseForgeSpec(spec)
+    forgeConfigs.set(config.host, config)
+    providers.delete(config.host)
+  }
+}
+
+/**
+ * Get the provider for a host, creating it on first use
+ */
+export function getProvider(host: string = DEFAULT_HOST): ForgeProvider {
+  const existing = providers.get(host)
+  if (existing) return existing
+
+  const config = forgeConfigs.get(host)
+  if (!config) {
+    throw new Error(`Unknown forge host "${host}". Use --forge ${host}=<kind> to configure it`)
+  }
+
+  let provider: ForgeProvider
+  switch (config.kind) {
+    case 'github':
+      provider = createGitHubProvider(config)
+      break
+    case 'gitlab':
+      provider = createGitLabProvider(config)
+      break
+    case 'gitea':
+      provider = createGiteaProvider(config)
+      break
+  }
+
+  providers.set(host, provider)
+  return provider
+}
+
+/**
+ * Checks whether the first segment of a spec is a host name.
+ * GitHub logins can't contain dots, so anything with a dot is a host.
+ */
+function hasHost(spec: string): boolean {
+  const [first, ...rest] = spec.split('/')
+  return rest.length > 0 && first.includes('.')
+}
+
+/**
+ * Parses an owner in the format "owner" or "host/owner" (GitLab owners may contain slashes)
+ */
+export function parseOwnerSpec(spec: string): { host?: string; owner: string } {
+  if (!hasHost(spec)) return { owner: spec }
+
+  const [host, ...owner] = spec.split('/')
+  return { host: host === DEFAULT_HOST ? undefined : host, owner: owner.join('/') }
+}
+
+/**
+ * Parses a repository in the format "owner/repo" or "host/owner/repo"
+ */
+export function parseRepoSpec(spec: string): { host?: string; owner: string; repo: string } {
+  if (!hasHost(spec)) {
+    const [owner, repo] = spec.split('/')
+    return { owner, repo }
+  }
+
+  const segments = spec.split('/')
+  const host = segments[0]
+  return {
+    host: host === DEFAULT_HOST ? undefined : host,
+    owner: segments.slice(1, -1).join('/'),
+    repo: segments[segments.length - 1],
+  }
+}
+
+/**
+ * Key of an owner in the cache and in reports: "owner", or "host/owner" off github.com
+ */
+export function getOwnerKey(owner: string, host?: string): string {
+  return host && host !== DEFAULT_HOST ? `${host}/${owner}` : owner
+}
+
+/**
+ * Key of a repository in the cache and in reports: "owner/repo", or "host/owner/repo" off github.com
+ */
+export function getRepoKey(owner: string, repo: string, host?: string): string {
+  return `${getOwnerKey(owner, host)}/${repo}`
+}
+
+/**
+ * Key of a repository object, see getRepoKey
+ */
+export function repoKeyOf(repository: Repository): string {
+  return getRepoKey(repository.owner.login, repository.name, repository.host)
+}
@@ -1,16 +1,30 @@
-import { Octokit } from '@octokit/rest'
+import type { Octokit } from '@octokit/rest'
 import {
+  addRun,
   cacheBranches,
+  cacheForks,
+  cacheOrgMembers,
   CacheData,
   cacheOwnerRepositories,
   cachePullRequests,
+  cacheRepository,
+  cacheSearchWindow,
   cacheTopRepositories,
+  hasFreshBranches,
+  hasFreshPullRequests,
   isCacheValid,
+  isFresh,
+  endRun,
   loadCache,
+  revalidateCache,
   saveCache,
+  saveCacheIfDue,
   saveOwnerType,
 } from './cache.js'
-import { execAsync } from './index.js'
+import type { CliOptions } from './cli.js'
+import { conditionalListing, getOwnerKey, getProvider, getRepoKey, parseOwnerSpec } from './forge.js'
+import { finishJournal, getJournal, saveJournal, snapshotJournal } from './journal.js'
+import { getOctokit } from './providers/github.js'
 
 export interface Repository {
   name: string
@@ -19,6 +33,8 @@ export interface Repository {
   }
   url: string
   stars?: number
+  host?: string // Forge host, omitted for github.com
+  parent?: string // Key of the repository this one was forked from, see getRepoKey
 }
 
 export interface Branch {
@@ -39,6 +55,9 @@ export interface PullRequest {
   title: string
   status: 'open' | 'closed'
   created_at: string
+  updated_at?: string // Missing in caches written before incremental sync
+  merged_at?: string | null
+  closed_at?: string | null // Also set for merged pull requests
   head: {
     ref: string // The name of the branch the PR is from
     label: string
@@ -52,216 +71,249 @@ export interface PullRequest {
   html_url: string
 }
 
+export interface SearchResult {
+  repository: Repository
+  pullRequest: PullRequest
+}
+
+// Shape of a pull request node returned by the GraphQL API
+interface GraphqlPullRequestNode {
+  number: number
+  title: string
+  state: 'OPEN' | 'CLOSED' | 'MERGED'
+  createdAt: string
+  updatedAt: string
+  mergedAt: string | null
+  closedAt: string | null
+  url: string
+  headRefName: string
+  baseRefName: string
+  headRepositoryOwner: { login: string } | null
+  author: { login: string } | null
+}
+
+// Shape of a pull request node returned by the GraphQL search API
+interface SearchPullRequestNode extends GraphqlPullRequestNode {
+  repository: {
+    name: string
+    owner: { login: string }
+    url: string
+  }
+}
+
+interface GraphqlConnection<T> {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null }
+  nodes: T[]
+}
+
+// Shape of a branch node returned by the GraphQL refs connection
+interface GraphqlRefNode {
+  name: string
+  target: { oid: string } | null
+}
+
+// Repository fields requested by the GraphQL backend; refs are aliased per ref query
+type GraphqlRepositoryNode = {
+  pullRequests?: GraphqlConnection<GraphqlPullRequestNode>
+} & {
+  [refsAlias: string]: GraphqlConnection<GraphqlRefNode>
+}
+
+interface SearchResponse {
+  search: {
+    issueCount: number
+    pageInfo: { hasNextPage: boolean; endCursor: string | null }
+    nodes: (SearchPullRequestNode | Record<string, never> | null)[] // Non-PR results are empty objects
+  }
+}
+
 interface RepoStats {
   repository: string
   totalBranches: number
   userStats: UserStats[]
 }
 
-// Cache the GitHub token so we only get it once
-let cachedGithubToken: string | null = null
 // Cache instance
 let cacheInstance: CacheData | null = null
 
 /**
  * Get the cache instance, loading it from disk if needed
- * @param forceRefresh If true, ignore the existing cache and start fresh
+ * @param forceRefresh If true, treat the cached data as stale so that it's revalidated
  */
 export async function getCache(forceRefresh = false): Promise<CacheData> {
-  if (cacheInstance === null || forceRefresh) {
-    cacheInstance = await loadCache(forceRefresh)
+  if (cacheInstance === null) {
+    cacheInstance = await loadCache()
+  }
+  if (forceRefresh) {
+    revalidateCache()
   }
   return cacheInstance
 }
 
 /**
- * Commit current cache to disk
+ * Commit current cache to disk once enough changes are pending (write-behind, see saveCacheIfDue).
+ * Called after every unit of work; flushCache saves everything at the end of a phase.
+ * The run journal is saved along with the cache, so that it never records repositories as done whose data
+ * isn't saved yet.
  */
 export async function persistCache(): Promise<void> {
   if (cacheInstance) {
-    await saveCache(cacheInstance)
+    // Taken before saving, like the cache changes
+    const journal = snapshotJournal()
+    if (await saveCacheIfDue(cacheInstance) > 0) {
+      await saveJournal(journal)
+    }
   }
 }
 
 /**
- * Attempt to get a GitHub token from the GitHub CLI
- * @returns The GitHub token or null if it couldn't be retrieved
+ * Commit all pending changes of the cache, and the run journal, to disk
+ * @param reason Reported with the number of saved changes, e.g. "branches done"
  */
-async function getGitHubToken(): Promise<string | null> {
-  if (cachedGithubToken !== null) {
-    return cachedGithubToken
-  }
-
-  try {
-    // Try to get the token from environment first
-    const envToken = process.env.GITHUB_TOKEN
-    if (envToken) {
-      cachedGithubToken = envToken
-      return envToken
-    }
-
-    // Try to get the token from GitHub CLI
-    console.log('No GITHUB_TOKEN in environment, attempting to get token from GitHub CLI...')
-    const { stdout, stderr } = await execAsync('gh auth token')
-
-    if (stderr) {
-      console.error('Error getting GitHub token from CLI:', stderr)
-      return null
-    }
-
-    const token = stdout.trim()
-    if (!token) {
-      console.error('GitHub CLI returned an empty token. Please run "gh auth login" first.')
-      return null
+export async function flushCache(reason: string): Promise<void> {
+  if (cacheInstance) {
+    const journal = snapshotJournal()
+    const saved = await saveCache(cacheInstance)
+    if (saved > 0) {
+      console.log(`Saved ${saved} pending cache ${saved === 1 ? 'write' : 'writes'} (${reason}).`)
     }
-
-    // Cache the token
-    cachedGithubToken = token
-    return token
-  } catch (error) {
-    console.error('Failed to get GitHub token:', error instanceof Error ? error.message : String(error))
-    console.error('Make sure GitHub CLI is installed and you are authenticated.')
-    console.error('Run "gh auth login" to authenticate or set the GITHUB_TOKEN environment variable.')
-    return null
+    await saveJournal(journal)
   }
 }
 
 /**
- * Initialize Octokit with GitHub token from environment or GitHub CLI
+ * Records the start of a run, with its options, in the run history.
+ * A journaled run is recorded with the start time of its journal, by which it's found again when it's resumed.
  */
-async function getOctokit(): Promise<Octokit> {
-  const token = await getGitHubToken()
-
-  if (!token) {
-    console.warn('No GitHub token available. API rate limits will be severely restricted.')
-    console.warn('Certain operations may fail due to rate limiting.')
-  }
+export async function startRun(options: CliOptions): Promise<void> {
+  cacheInstance = addRun(await getCache(), options, getJournal()?.startedAt)
+  await saveCache(cacheInstance)
+}
 
-  return new Octokit({
-    auth: token,
-  })
+/**
+ * Records the end of the current run, which may have been started by the run that it resumes
+ */
+export async function finishRun(): Promise<void> {
+  cacheInstance = endRun(await getCache(), getJournal()?.startedAt)
+  await flushCache('run finished')
+  await finishJournal()
 }
 
 /**
  * Checks if the provided owner is an organization or a user
- * @param owner The GitHub owner (organization or user) to check
+ * @param ownerSpec The owner (organization or user) to check, optionally prefixed with a forge host
  * @returns Boolean indicating if the owner is an organization
  */
-export async function isOrganization(owner: string): Promise<boolean> {
+export async function isOrganization(ownerSpec: string): Promise<boolean> {
   // Check cache first
   const cache = await getCache()
+  const { host, owner } = parseOwnerSpec(ownerSpec)
+  const ownerKey = getOwnerKey(owner, host)
 
   // Look for any repository from this owner to determine owner type
   const ownerRepos = Object.keys(cache.repositories)
-    .filter(key => key.startsWith(`${owner}/`))
+    .filter(key => key.startsWith(`${ownerKey}/`))
     .map(key => cache.repositories[key])
 
-  // If we have cached owner information, use it
-  if (ownerRepos.length > 0 && ownerRepos[0].ownerType) {
+  // If we have fresh cached owner information, use it
+  if (ownerRepos.length > 0 && ownerRepos[0].ownerType && isFresh(ownerRepos[0].ownerTypeTimestamp, 'ownerType')) {
     return ownerRepos[0].ownerType === 'organization'
   }
 
   // Otherwise make API call
-  const octokit = await getOctokit()
-
-  try {
-    // Try to get the organization profile
-    await octokit.orgs.get({
-      org: owner,
-    })
-
-    // If no error is thrown, it's an organization
-    // Update cache
-    cacheInstance = saveOwnerType(cache, owner, true)
-    await persistCache()
+  const isOrg = await getProvider(host).ownerKind(owner) === 'organization'
 
-    return true
-  } catch (error) {
-    // If we get a 404, it's not an organization, so it's likely a user
-    if (error instanceof Error && error.message.includes('Not Found')) {
-      // Update cache
-      cacheInstance = saveOwnerType(cache, owner, false)
-      await persistCache()
+  // Update cache
+  cacheInstance = saveOwnerType(cache, ownerKey, isOrg)
+  await persistCache()
 
-      return false
-    }
-    // For any other error, re-throw it
-    throw error
-  }
+  return isOrg
 }
 
 /**
- * Fetches repositories from the owner (organization or user) using GitHub API
+ * Fetches repositories from the owner (organization or user)
+ * @param ownerSpec The owner, optionally prefixed with a forge host (e.g. "codeberg.org/forgejo")
  */
-export async function getRepositories(owner: string): Promise<Repository[]> {
+export async function getRepositories(ownerSpec: string): Promise<Repository[]> {
   // Check if we have this in cache
   const cache = await getCache()
+  const { host, owner } = parseOwnerSpec(ownerSpec)
+  const ownerKey = getOwnerKey(owner, host)
 
   if (
     cache.ownerRepos
-    && cache.ownerRepos[owner]
+    && cache.ownerRepos[ownerKey]
+    && isFresh(cache.ownerRepos[ownerKey].timestamp, 'repos')
   ) {
-    console.log(`Using cached repositories for ${owner} (${cache.ownerRepos[owner].data.length} repos)`)
-    return cache.ownerRepos[owner].data
+    console.log(`Using cached repositories for ${ownerKey} (${cache.ownerRepos[ownerKey].data.length} repos)`)
+    return cache.ownerRepos[ownerKey].data
   }
 
   // Not in cache or cache expired, fetch from API
-  const octokit = await getOctokit()
-
   try {
     // Check if the owner is an organization or a user
-    const isOrg = await isOrganization(owner)
+    const isOrg = await isOrganization(ownerSpec)
 
-    console.log(`Fetching repositories from ${owner} ${isOrg ? 'organization' : 'user'}...`)
+    console.log(`Fetching repositories from ${ownerKey} ${isOrg ? 'organization' : 'user'}...`)
 
-    let repos
+    // Revalidate the cached list, if any, with conditional requests
+    const cached = cache.ownerRepos?.[ownerKey]
+    const conditional = conditionalListing(cached?.data, cached?.pages)
+    const repositories = await getProvider(host).listOwnerRepos(owner, isOrg ? 'organization' : 'user', conditional)
 
-    if (isOrg) {
-      // Use Octokit's automatic pagination to get all repositories from an organization
-      repos = await octokit.paginate(octokit.repos.listForOrg, {
-        org: owner,
-        per_page: 100,
-        sort: 'full_name',
-      })
-    } else {
-      // Use Octokit's automatic pagination to get all repositories from a user
-      repos = await octokit.paginate(octokit.repos.listForUser, {
-        username: owner,
-        per_page: 100,
-        sort: 'full_name',
-      })
-    }
-
-    const repositories: Repository[] = repos.map(repo => ({
-      name: repo.name,
-      owner: {
-        login: repo.owner.login,
-      },
-      url: repo.html_url,
-    }))
-
-    console.log(`Found ${repositories.length} repositories for ${owner} ${isOrg ? 'organization' : 'user'}`)
+    console.log(`Found ${repositories.length} repositories for ${ownerKey} ${isOrg ? 'organization' : 'user'}`)
 
     // Update cache
-    cacheInstance = cacheOwnerRepositories(cache, owner, repositories)
+    cacheInstance = cacheOwnerRepositories(cache, ownerKey, repositories, conditional.pages)
     await persistCache()
 
     return repositories
   } catch (error) {
-    console.error(`Error fetching repositories for ${owner}:`, error)
+    console.error(`Error fetching repositories for ${ownerKey}:`, error)
     if (error instanceof Error) {
       console.error('Error details:', error.message)
     }
-    throw new Error(`Failed to fetch repositories for ${owner}`)
+    throw new Error(`Failed to fetch repositories for ${ownerKey}`)
   }
 }
 
 /**
- * Fetches a specific repository by owner and repo name using GitHub API
+ * Fetches the logins of the public members of an organization
+ * @param orgSpec The organization, optionally prefixed with a forge host
  */
-export async function getSpecificRepository(owner: string, repo: string): Promise<Repository> {
+export async function getOrgMembers(orgSpec: string): Promise<string[]> {
   const cache = await getCache()
-  const repoKey = `${owner}/${repo}`
+  const { host, owner } = parseOwnerSpec(orgSpec)
+  const orgKey = getOwnerKey(owner, host)
+
+  if (cache.orgMembers && cache.orgMembers[orgKey] && isFresh(cache.orgMembers[orgKey].timestamp, 'repos')) {
+    console.log(`Using cached members of ${orgKey} (${cache.orgMembers[orgKey].data.length} members)`)
+    return cache.orgMembers[orgKey].data
+  }
+
+  try {
+    console.log(`Fetching members of ${orgKey}...`)
+    const members = await getProvider(host).listOrgMembers(owner)
+    console.log(`Found ${members.length} public members of ${orgKey}`)
+
+    // Update cache
+    cacheInstance = cacheOrgMembers(cache, orgKey, members)
+    await persistCache()
+
+    return members
+  } catch (error) {
+    console.error(`Error fetching members of ${orgKey}:`, error)
+    throw new Error(`Failed to fetch members of ${orgKey}`)
+  }
+}
+
+/**
+ * Fetches a specific repository by owner and repo name
+ * @param host Forge host, omitted for github.com
+ */
+export async function getSpecificRepository(owner: string, repo: string, host?: string): Promise<Repository> {
+  const cache = await getCache()
+  const repoKey = getRepoKey(owner, repo, host)
 
   // Check if we have this repository in cache
   if (
@@ -273,35 +325,47 @@ export async function getSpecificRepository(owner: string, repo: string): Promis
   }
 
   try {
-    console.log(`Fetching specific repository: ${owner}/${repo}...`)
-    const octokit = await getOctokit()
-    const response = await octokit.repos.get({
-      owner,
-      repo,
-    })
-
-    const repository: Repository = {
-      name: response.data.name,
-      owner: {
-        login: response.data.owner.login,
-      },
-      url: response.data.html_url,
-    }
-    console.log(`Successfully fetched repository: ${owner}/${repo}`)
+    console.log(`Fetching specific repository: ${repoKey}...`)
+    const repository = await getProvider(host).getRepo(owner, repo)
+    console.log(`Successfully fetched repository: ${repoKey}`)
 
     // Update cache
-    if (!cache.repositories[repoKey]) {
-      cache.repositories[repoKey] = {
-        data: repository
-      }
-      cacheInstance = cache
-      await persistCache()
-    }
+    cacheInstance = cacheRepository(cache, repository)
+    await persistCache()
 
     return repository
   } catch (error) {
-    console.error(`Error fetching repository ${owner}/${repo}:`, error)
-    throw new Error(`Failed to fetch repository ${owner}/${repo}`)
+    console.error(`Error fetching repository ${repoKey}:`, error)
+    throw new Error(`Failed to fetch repository ${repoKey}`)
+  }
+}
+
+/**
+ * Fetches the direct forks of a repository
+ * @param host Forge host, omitted for github.com
+ */
+export async function getForks(owner: string, repo: string, host?: string): Promise<Repository[]> {
+  const cache = await getCache()
+  const repoKey = getRepoKey(owner, repo, host)
+
+  if (cache.forks && cache.forks[repoKey] && isFresh(cache.forks[repoKey].timestamp, 'repos')) {
+    console.log(`Using cached forks of ${repoKey} (${cache.forks[repoKey].data.length} forks)`)
+    return cache.forks[repoKey].data
+  }
+
+  try {
+    console.log(`Fetching forks of ${repoKey}...`)
+    const forks = await getProvider(host).listForks(owner, repo)
+    console.log(`Found ${forks.length} forks of ${repoKey}`)
+
+    // Update cache
+    cacheInstance = cacheForks(cache, repoKey, forks)
+    await persistCache()
+
+    return forks
+  } catch (error) {
+    console.error(`Error fetching forks of ${repoKey}:`, error)
+    throw new Error(`Failed to fetch forks of ${repoKey}`)
   }
 }
 
@@ -316,6 +380,7 @@ export async function getTopRepos(count: number): Promise<Repository[]> {
     cache.topRepos
     && cache.topRepos.count === count
     && cache.topRepos.data.length === count
+    && isFresh(cache.topRepos.timestamp, 'repos')
   ) {
     console.log(`Using cached top ${count} repositories`)
     return cache.topRepos.data
@@ -389,163 +454,558 @@ export function parseRepoString(repoString: string): { owner: string; repo: stri
 }
 
 /**
- * Fetches branches for a given repository using GitHub API
+ * Checks whether an error is one that retrying later may not hit: a rate limit (429 Too Many Requests on GitLab
+ * and Gitea) or a server error, which are left over after the retries of getOctokit
  */
-export async function getBranches(owner: string, repo: string): Promise<Branch[]> {
+function isTemporaryError(error: unknown): boolean {
+  const { status, message = '' } = error as { status?: number; message?: string }
+  return /rate limit/i.test(message) || status === 429 || (status !== undefined && status >= 500)
+}
+
+/**
+ * Fetches branches for a given repository
+ * @param host Forge host, omitted for github.com
+ * @param refQueries GraphQL ref queries of the run, whose filtered branches are served from the cache too
+ */
+export async function getBranches(
+  owner: string,
+  repo: string,
+  host?: string,
+  refQueries: string[] = [],
+): Promise<Branch[]> {
   const cache = await getCache()
-  const repoKey = `${owner}/${repo}`
+  const repoKey = getRepoKey(owner, repo, host)
 
   // Check cache
   if (
-    cache.repositories[repoKey]
-    && cache.repositories[repoKey].branches
+    hasFreshBranches(cache, repoKey, refQueries)
   ) {
     console.log(`Using cached branches for ${repoKey} (${cache.repositories[repoKey].branches!.length} branches)`)
     return cache.repositories[repoKey].branches!
   }
 
-  const octokit = await getOctokit()
-
   try {
-    console.log(`Fetching branches for ${owner}/${repo}...`)
-
-    // Use Octokit's automatic pagination with a limit
-    const branches = await octokit.paginate(
-      octokit.repos.listBranches,
-      {
-        owner,
-        repo,
-        per_page: 100,
-      },
-      response =>
-        response.data.map(branch => ({
-          name: branch.name,
-          commit: {
-            sha: branch.commit.sha,
-            url: branch.commit.url,
-          },
-        })),
-      {
-        throttle: {
-          onRateLimit: (retryAfter, options) => {
-            console.warn(`Rate limit hit while fetching branches. Retrying after ${retryAfter} seconds`)
-            return true // retry
-          },
-          onSecondaryRateLimit: (retryAfter, options) => {
-            console.warn(`Secondary rate limit hit while fetching branches. Retrying after ${retryAfter} seconds`)
-            return true // retry
-          },
-        },
-          },
-    )
+    console.log(`Fetching branches for ${repoKey}...`)
+
+    // Revalidate the cached branches, if any, with conditional requests
+    const cached = cache.repositories[repoKey]
+    const conditional = conditionalListing(cached?.branches, cached?.branchesPages)
+    const branches = await getProvider(host).listBranches(owner, repo, conditional)
 
-    console.log(`Found ${branches.length} branches for ${owner}/${repo}`)
+    console.log(`Found ${branches.length} branches for ${repoKey}`)
 
     const result = branches
 
-    // Update cache
-    cacheInstance = cacheBranches(cache, owner, repo, result)
+    // Update cache, as it is now: other repositories may have been cached while fetching
+    cacheInstance = cacheBranches(await getCache(), owner, repo, result, host, conditional.pages)
     await persistCache()
 
     return result
   } catch (error) {
-    if (error instanceof Error) {
-      const errorMsg = error.message || ''
-      if (errorMsg.includes('rate limit') || errorMsg.includes('API rate limit exceeded')) {
-        console.error(`GitHub API rate limit exceeded while fetching branches for ${owner}/${repo}`)
-      } else {
-        console.error(`Error fetching branches for ${owner}/${repo}:`, error)
-      }
+    if (isTemporaryError(error)) {
+      // Not an empty list: the caller reports the repository as not searched, and the next run fetches it again
+      throw new Error(`Could not fetch branches for ${repoKey}: ${(error as Error).message}`)
     }
+    console.error(`Error fetching branches for ${repoKey}:`, error)
     return []
   }
 }
 
 /**
- * Fetches pull requests for a given repository using GitHub API
+ * Merges updated pull requests into cached ones by number, newest first
+ */
+export function mergePullRequests(cached: PullRequest[], updates: PullRequest[]): PullRequest[] {
+  const byNumber = new Map(cached.map(pr => [pr.number, pr]))
+  updates.forEach(pr => byNumber.set(pr.number, pr))
+
+  return Array.from(byNumber.values()).sort((a, b) => b.number - a.number)
+}
+
+/**
+ * Applies --pr-status to pull requests of every state
+ */
+export function filterPullRequests(pullRequests: PullRequest[], prStatus: 'open' | 'closed' | 'all'): PullRequest[] {
+  return prStatus === 'all' ? pullRequests : pullRequests.filter(pr => pr.status === prStatus)
+}
+
+/**
+ * The cursor that stale pull requests of a repository are synced incrementally from,
+ * unless the cache predates complete pull request lists
+ */
+function pullRequestsSyncCursor(cache: CacheData, repoKey: string): string | undefined {
+  const cached = cache.repositories[repoKey]
+  return cached?.pullRequests && cached.pullRequestsComplete ? cached.pullRequestsCursor : undefined
+}
+
+/**
+ * Fetches pull requests for a given repository, filtered by prStatus.
+ * The cache holds pull requests of every state, so it serves any prStatus.
+ * Once cached, later fetches only download the pull requests updated since the previous one.
+ * @param host Forge host, omitted for github.com
  */
 export async function getPullRequests(
   owner: string,
   repo: string,
   prStatus: 'open' | 'closed' | 'all' = 'all',
+  host?: string,
 ): Promise<PullRequest[]> {
   const cache = await getCache()
-  const repoKey = `${owner}/${repo}`
+  const repoKey = getRepoKey(owner, repo, host)
 
   // Check cache
   if (
-    cache.repositories[repoKey]
-    && cache.repositories[repoKey].pullRequests
+    hasFreshPullRequests(cache, repoKey)
   ) {
     console.log(`Using cached pull requests for ${repoKey} (${cache.repositories[repoKey].pullRequests!.length} PRs)`)
-    return cache.repositories[repoKey].pullRequests!
+    return filterPullRequests(cache.repositories[repoKey].pullRequests!, prStatus)
   }
 
-  const octokit = await getOctokit()
+  // Stale pull requests are synced incrementally
+  const cached = cache.repositories[repoKey]
+  const cursor = pullRequestsSyncCursor(cache, repoKey)
+
+  // Pages that haven't changed since the previous sync are revalidated with conditional requests
+  const conditional = conditionalListing(cached?.pullRequests, cached?.pullRequestsPages)
 
   try {
-    console.log(`Fetching pull requests for ${owner}/${repo}...`)
-
-    const pullRequests = await octokit.paginate(
-      octokit.pulls.list,
-      {
-        owner,
-        repo,
-        state: prStatus,
-        sort: 'created', // Sort by creation date
-        direction: 'desc', // Newest first
-        per_page: 100,
-      },
-      response =>
-        response.data.map(pr => ({
-          number: pr.number,
-          title: pr.title,
-          status: pr.state as 'open' | 'closed',
-          created_at: pr.created_at,
-          head: {
-            ref: pr.head.ref,
-            label: pr.head.label,
-          },
-          base: {
-            ref: pr.base.ref,
-          },
-          user: {
-            login: pr.user?.login || 'unknown',
-          },
-          html_url: pr.html_url,
-        })),
-      {
-        throttle: {
-          onRateLimit: (retryAfter, options) => {
-            console.warn(`Rate limit hit while fetching PRs. Retrying after ${retryAfter} seconds`)
-            return true // retry
-          },
-          onSecondaryRateLimit: (retryAfter, options) => {
-            console.warn(`Secondary rate limit hit while fetching PRs. Retrying after ${retryAfter} seconds`)
-            return true // retry
-          },
-        },
-      },
-    )
+    let result: PullRequest[]
 
-    console.log(`Found ${pullRequests.length} pull requests for ${owner}/${repo}`)
+    if (cursor) {
+      console.log(`Fetching pull requests for ${repoKey} updated since ${cursor}...`)
 
-    const result = pullRequests
+      const updates = await getProvider(host).listPullRequests(owner, repo, 'all', cursor, conditional)
 
-    // Update cache
-    cacheInstance = cachePullRequests(cache, owner, repo, result)
+      console.log(`Found ${updates.length} updated pull requests for ${repoKey}`)
+
+      result = mergePullRequests(cached!.pullRequests!, updates)
+    } else {
+      console.log(`Fetching pull requests for ${repoKey}...`)
+
+      result = await getProvider(host).listPullRequests(owner, repo, 'all', undefined, conditional)
+
+      console.log(`Found ${result.length} pull requests for ${repoKey}`)
+    }
+
+    // Update cache, as it is now: other repositories may have been cached while fetching
+    cacheInstance = cachePullRequests(await getCache(), owner, repo, result, host, conditional.pages)
     await persistCache()
 
-    return result
+    return filterPullRequests(result, prStatus)
   } catch (error) {
-    if (error instanceof Error) {
-      const errorMsg = error.message || ''
-      if (errorMsg.includes('rate limit') || errorMsg.includes('API rate limit exceeded')) {
-        console.error(`GitHub API rate limit exceeded while fetching PRs for ${owner}/${repo}`)
-      } else {
-        console.error(`Error fetching PRs for ${owner}/${repo}:`, error)
-      }
+    if (isTemporaryError(error)) {
+      // Not an empty list: the caller reports the repository as not searched, and the next run fetches it again
+      throw new Error(`Could not fetch PRs for ${repoKey}: ${(error as Error).message}`)
     }
+    console.error(`Error fetching PRs for ${repoKey}:`, error)
     return []
   }
 }
+
+// GitHub search never returns more than this many results for one query
+const SEARCH_RESULT_LIMIT = 1000
+
+// Pull request fields shared by the GraphQL search and repository queries
+const PULL_REQUEST_FIELDS = `
+  number
+  title
+  state
+  createdAt
+  updatedAt
+  mergedAt
+  closedAt
+  url
+  headRefName
+  baseRefName
+  headRepositoryOwner { login }
+  author { login }
+`
+
+const SEARCH_PULL_REQUESTS_QUERY = `
+  query($q: String!, $after: String) {
+    search(query: $q, type: ISSUE, first: 100, after: $after) {
+      issueCount
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        ... on PullRequest {
+          number
+          title
+          state
+          createdAt
+          updatedAt
+          mergedAt
+          closedAt
+          url
+          headRefName
+          baseRefName
+          headRepositoryOwner { login }
+          author { login }
+          repository { name owner { login } url }
+        }
+      }
+    }
+  }
+`
+
+// Format a date as YYYY-MM-DD for search qualifiers
+const toSearchDate = (date: Date): string => date.toISOString().slice(0, 10)
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * 24 * 60 * 60 * 1000)
+
+/**
+ * Converts a GraphQL pull request node to our pull request structure
+ */
+function toPullRequest(node: GraphqlPullRequestNode): PullRequest {
+  return {
+    number: node.number,
+    title: node.title,
+    status: node.state === 'OPEN' ? 'open' : 'closed',
+    created_at: node.createdAt,
+    updated_at: node.updatedAt,
+    merged_at: node.mergedAt,
+    closed_at: node.closedAt,
+    head: {
+      ref: node.headRefName,
+      label: `${node.headRepositoryOwner?.login ?? 'unknown'}:${node.headRefName}`,
+    },
+    base: {
+      ref: node.baseRefName,
+    },
+    user: {
+      login: node.author?.login || 'unknown',
+    },
+    html_url: node.url,
+  }
+}
+
+/**
+ * Converts a GraphQL search node to our search result structure
+ */
+function toSearchResult(node: SearchPullRequestNode): SearchResult {
+  return {
+    repository: {
+      name: node.repository.name,
+      owner: {
+        login: node.repository.owner.login,
+      },
+      url: node.repository.url,
+    },
+    pullRequest: toPullRequest(node),
+  }
+}
+
+/**
+ * Searches pull requests created within a date window (both ends inclusive).
+ * Windows with more results than the search API returns are split in half.
+ */
+async function searchPullRequestWindow(
+  octokit: Octokit,
+  query: string,
+  from: Date,
+  to: Date,
+): Promise<SearchResult[]> {
+  const windowQuery = `${query} created:${toSearchDate(from)}..${toSearchDate(to)}`
+  const results: SearchResult[] = []
+  let after: string | null = null
+
+  do {
+    const response: SearchResponse = await octokit.graphql<SearchResponse>(SEARCH_PULL_REQUESTS_QUERY, {
+      q: windowQuery,
+      after,
+    })
+    const { issueCount, pageInfo, nodes } = response.search
+
+    // Too many results to page through: split the window, unless it's a single day
+    if (after === null && issueCount > SEARCH_RESULT_LIMIT && toSearchDate(from) !== toSearchDate(to)) {
+      const days = Math.round((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000))
+      const middle = addDays(from, Math.floor(days / 2))
+      return [
+        ...await searchPullRequestWindow(octokit, query, from, middle),
+        ...await searchPullRequestWindow(octokit, query, addDays(middle, 1), to),
+      ]
+    }
+
+    if (after === null && issueCount > SEARCH_RESULT_LIMIT) {
+      console.warn(`More than ${SEARCH_RESULT_LIMIT} results on ${toSearchDate(from)}; some will be missed`)
+    }
+
+    for (const node of nodes) {
+      if (node && 'number' in node) {
+        results.push(toSearchResult(node as SearchPullRequestNode))
+      }
+    }
+
+    after = pageInfo.hasNextPage ? pageInfo.endCursor : null
+  } while (after !== null)
+
+  return results
+}
+
+/**
+ * Searches all of GitHub for pull requests whose head branch starts with a prefix.
+ * The search is split into monthly windows to get past the 1000-result cap;
+ * windows that ended before they were fetched are reused from the cache.
+ */
+export async function searchPullRequestsByHead(
+  headPrefix: string,
+  since: Date,
+  prStatus: 'open' | 'closed' | 'all' = 'all',
+): Promise<SearchResult[]> {
+  const cache = await getCache()
+  const query = `is:pr head:${headPrefix}${prStatus === 'all' ? '' : ` is:${prStatus}`}`
+  const now = new Date()
+  const results: SearchResult[] = []
+
+  let octokit: Octokit | null = null
+
+  // Walk calendar months from the start date until today
+  let monthStart = new Date(Date.UTC(since.getUTCFullYear(), since.getUTCMonth(), 1))
+  while (monthStart <= now) {
+    const nextMonth = new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 1))
+    const windowKey = `${query}|${toSearchDate(monthStart).slice(0, 7)}`
+    const cached = cache.globalSearch?.[windowKey]
+
+    if (cached && cached.complete) {
+      results.push(...cached.data)
+    } else {
+      try {
+        octokit ??= await getOctokit()
+        const from = monthStart < since ? since : monthStart
+        const to = addDays(nextMonth, -1) < now ? addDays(nextMonth, -1) : now
+        console.log(`Searching pull requests with "${query}" created ${toSearchDate(from)}..${toSearchDate(to)}...`)
+
+        const windowResults = await searchPullRequestWindow(octokit, query, from, to)
+        results.push(...windowResults)
+
+        // Update cache, as it is now: the windows searched before this one are in it
+        cacheInstance = cacheSearchWindow(await getCache(), windowKey, windowResults, nextMonth <= now)
+        await persistCache()
+      } catch (error) {
+        console.error(`Error searching pull requests for ${windowKey}:`, error)
+        throw new Error(`Failed to search pull requests with "${query}"`)
+      }
+    }
+
+    monthStart = nextMonth
+  }
+
+  console.log(`Found ${results.length} pull requests with "${query}"`)
+  return results
+}
+
+// Number of repositories fetched in a single GraphQL query
+export const GRAPHQL_BATCH_SIZE = 10
+
+const REF_FIELDS = `
+  pageInfo { hasNextPage endCursor }
+  nodes { name target { oid } }
+`
+
+const PULL_REQUEST_CONNECTION_FIELDS = `
+  pageInfo { hasNextPage endCursor }
+  nodes { ${PULL_REQUEST_FIELDS} }
+`
+
+/**
+ * Converts a GraphQL ref node to our branch structure
+ */
+function toBranch(owner: string, repo: string, node: GraphqlRefNode): Branch {
+  const sha = node.target?.oid ?? ''
+  return {
+    name: node.name,
+    commit: {
+      sha,
+      url: `https://api.github.com/repos/${owner}/${repo}/commits/${sha}`,
+    },
+  }
+}
+
+/**
+ * Fetches the remaining pages of one connection of a single repository.
+ * The connection must take its cursor from the $after variable.
+ */
+async function fetchRemainingPages<T>(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  connection: string,
+  fields: string,
+  after: string,
+  variables: Record<string, unknown>,
+  variableDefinitions: string[],
+): Promise<T[]> {
+  const query = `
+    query(${['$owner: String!', '$name: String!', '$after: String', ...variableDefinitions].join(', ')}) {
+      repository(owner: $owner, name: $name) {
+        connection: ${connection} { ${fields} }
+      }
+    }
+  `
+  const nodes: T[] = []
+  let cursor: string | null = after
+
+  while (cursor !== null) {
+    const response: { repository: { connection: GraphqlConnection<T> } } = await octokit.graphql(query, {
+      owner,
+      name: repo,
+      after: cursor,
+      ...variables,
+    })
+    nodes.push(...response.repository.connection.nodes)
+    const { hasNextPage, endCursor } = response.repository.connection.pageInfo
+    cursor = hasNextPage ? endCursor : null
+  }
+
+  return nodes
+}
+
+/**
+ * Fetches branches (and optionally pull requests) for several repositories per request
+ * using the GraphQL API, so that getBranches and getPullRequests can serve them without
+ * further requests.
+ *
+ * Branches are filtered on the server by the given ref queries, so only branches
+ * whose names match one of them are fetched. They're cached along with the queries, and
+ * only serve runs with the same queries. Without ref queries, all branches are fetched.
+ *
+ * Pull requests are only fetched for repositories that getPullRequests would download in full:
+ * fresh ones are served from the cache, and stale ones are synced incrementally by getPullRequests.
+ */
+export async function prefetchWithGraphql(
+  repositories: Repository[],
+  refQueries: string[],
+  includePrs: boolean,
+): Promise<void> {
+  if (repositories.length === 0) return
+
+  const octokit = await getOctokit()
+  const cache = await getCache()
+
+  // A null query fetches all branches
+  const queries: (string | null)[] = refQueries.length > 0 ? refQueries : [null]
+
+  const refsConnection = (queryVariable: string, paged: boolean) =>
+    `refs(refPrefix: "refs/heads/", query: ${queryVariable}, first: 100${paged ? ', after: $after' : ''})`
+  const pullRequestsConnection = (paged: boolean) =>
+    `pullRequests(first: 100, orderBy: { field: CREATED_AT, direction: DESC }${
+      paged ? ', after: $after' : ''
+    })`
+
+  for (let start = 0; start < repositories.length; start += GRAPHQL_BATCH_SIZE) {
+    const batch = repositories.slice(start, start + GRAPHQL_BATCH_SIZE)
+    const fetchesPrs = batch.map(repo => {
+      const repoKey = getRepoKey(repo.owner.login, repo.name)
+      return includePrs && !hasFreshPullRequests(cache, repoKey) && !pullRequestsSyncCursor(cache, repoKey)
+    })
+    console.log(
+      `Fetching branches${fetchesPrs.some(Boolean) ? ' and pull requests' : ''} for ${batch.length} repositories `
+      + 'via GraphQL...',
+    )
+
+    // One aliased repository field per repo, with one aliased refs connection per ref query.
+    // Pull requests of every state are fetched, --pr-status is applied when matching.
+    const variables: Record<string, unknown> = {}
+    const variableDefinitions: string[] = []
+    queries.forEach((refQuery, index) => {
+      variables[`query${index}`] = refQuery
+      variableDefinitions.push(`$query${index}: String`)
+    })
+
+    const repoFields = batch.map((repo, index) => {
+      variables[`owner${index}`] = repo.owner.login
+      variables[`name${index}`] = repo.name
+      variableDefinitions.push(`$owner${index}: String!`, `$name${index}: String!`)
+
+      const refs = queries.map((_, queryIndex) =>
+        `refs${queryIndex}: ${refsConnection(`$query${queryIndex}`, false)} { ${REF_FIELDS} }`
+      )
+      const pullRequests = fetchesPrs[index]
+        ? `pullRequests: ${pullRequestsConnection(false)} { ${PULL_REQUEST_CONNECTION_FIELDS} }`
+        : ''
+      return `repo${index}: repository(owner: $owner${index}, name: $name${index}) { ${refs.join('\n')} ${pullRequests} }`
+    })
+
+    let response: Record<string, GraphqlRepositoryNode | null>
+    try {
+      response = await octokit.graphql(
+        `query(${variableDefinitions.join(', ')}) { ${repoFields.join('\n')} }`,
+        variables,
+      )
+    } catch (error) {
+      // Errors for a single repository (e.g. not found) come with the data of the others
+      const partialData = (error as { data?: Record<string, GraphqlRepositoryNode | null> }).data
+      if (!partialData) {
+        console.error('Error fetching repositories via GraphQL:', error)
+        continue
+      }
+      response = partialData
+    }
+
+    for (const [index, repo] of batch.entries()) {
+      const owner = repo.owner.login
+      const node = response[`repo${index}`]
+      if (!node) {
+        console.error(`Error fetching ${owner}/${repo.name} via GraphQL: repository not found`)
+        continue
+      }
+
+      try {
+        // Collect branches from every ref query, following pagination where needed
+        const branchesByName = new Map<string, Branch>()
+        for (const [queryIndex, refQuery] of queries.entries()) {
+          const refs = node[`refs${queryIndex}`]
+          const refNodes = [...refs.nodes]
+          if (refs.pageInfo.hasNextPage && refs.pageInfo.endCursor) {
+            refNodes.push(
+              ...await fetchRemainingPages<GraphqlRefNode>(
+                octokit,
+                owner,
+                repo.name,
+                refsConnection('$query', true),
+                REF_FIELDS,
+                refs.pageInfo.endCursor,
+                { query: refQuery },
+                ['$query: String'],
+              ),
+            )
+          }
+          refNodes.forEach(refNode => branchesByName.set(refNode.name, toBranch(owner, repo.name, refNode)))
+        }
+
+        const branches = Array.from(branchesByName.values())
+        console.log(`Found ${branches.length} candidate branches for ${owner}/${repo.name}`)
+
+        // Update cache, as it is now: the repositories before this one are in it
+        cacheInstance = cacheBranches(await getCache(), owner, repo.name, branches, undefined, undefined, refQueries)
+
+        if (fetchesPrs[index] && node.pullRequests) {
+          const prNodes = [...node.pullRequests.nodes]
+          const { hasNextPage, endCursor } = node.pullRequests.pageInfo
+          if (hasNextPage && endCursor) {
+            prNodes.push(
+              ...await fetchRemainingPages<GraphqlPullRequestNode>(
+                octokit,
+                owner,
+                repo.name,
+                pullRequestsConnection(true),
+                PULL_REQUEST_CONNECTION_FIELDS,
+                endCursor,
+                {},
+                [],
+              ),
+            )
+          }
+
+          const pullRequests = prNodes.map(toPullRequest)
+          console.log(`Found ${pullRequests.length} pull requests for ${owner}/${repo.name}`)
+
+          // Update cache
+          cacheInstance = cachePullRequests(await getCache(), owner, repo.name, pullRequests)
+        }
+      } catch (error) {
+        console.error(`Error fetching ${owner}/${repo.name} via GraphQL:`, error)
+      }
+    }
+
+    await persistCache()
+  }
+}
@@ -1,468 +1,765 @@
 import { exec } from 'child_process'
 import { promisify } from 'util'
-import { clearCache, updateCliOptions } from './cache.js'
-import { CliOptions, getCliOptions } from './cli.js'
+import {
+  clearCache,
+  configureStorage,
+  hasBranchesFor,
+  hasFreshBranches,
+  hasFreshPullRequests,
+  lockCache,
+  parseMaxAge,
+  resolveCacheDir,
+  setMaxAge,
+} from './cache.js'
+import { CliOptions, getCacheCommandOptions, getCliOptions, isCacheCommand } from './cli.js'
+import { estimateScan, printEstimate } from './estimate.js'
+import { configureForges, DEFAULT_HOST, getOwnerKey, parseOwnerSpec, parseRepoSpec, repoKeyOf } from './forge.js'
 import {
   Branch,
+  filterPullRequests,
   getBranches,
   getCache,
+  getForks,
+  getOrgMembers,
   getPullRequests,
   getRepositories,
   getSpecificRepository,
   getTopRepos,
-  parseRepoString,
+  finishRun,
+  flushCache,
   persistCache,
+  prefetchWithGraphql,
+  PullRequest,
   Repository,
+  searchPullRequestsByHead,
+  startRun,
 } from './github.js'
+import {
+  computeConfidence,
+  getRefQueries,
+  loadPatternRegistry,
+  matchBranchName,
+  PatternRegistry,
+  scoreMatch,
+} from './patterns.js'
+import {
+  getJournal,
+  getPhasePlan,
+  type JournalPhase,
+  markRepo,
+  planPhase,
+  resumedOptions,
+  resumeJournal,
+  setJournalRepositories,
+  startJournal,
+} from './journal.js'
+import { readLocalRefs, usernameFromEmail } from './local.js'
+import { runCacheCommand } from './maintenance.js'
+import { formatBudget } from './ratelimit.js'
+import { configureRecorder } from './recorder.js'
+import {
+  BranchMatch,
+  OrgMember,
+  printBranchReport,
+  printMemberReport,
+  printPullRequestReport,
+  printUserToolReport,
+  PullRequestMatch,
+} from './report.js'
+import { runPool } from './scheduler.js'
+import { configureTokenPool, loadTokens, printTokenUsage } from './tokens.js'
 
 export const execAsync = promisify(exec)
 
-interface BranchMatch {
-  repository: string
-  branch: string
-  username?: string // Extracted username from branch pattern
+/**
+ * Checks a branch against the pattern registry
+ * @param fallbackUsername Username to attribute the branch to when the pattern doesn't capture one
+ */
+function matchBranch(
+  repository: string,
+  branch: Branch,
+  registry: PatternRegistry,
+  fallbackUsername?: string,
+): BranchMatch | null {
+  const match = matchBranchName(registry, branch.name)
+  if (!match) return null
+
+  return {
+    repository,
+    branch: branch.name,
+    tool: match.tool,
+    username: match.username ?? fallbackUsername,
+    ...scoreMatch(match, false),
+  }
 }
 
-interface PullRequestMatch {
-  repository: string
-  prNumber: number
-  title: string
-  status: 'open' | 'closed'
-  username: string
-  branchName: string
-  createdAt: string
-  url: string
+/**
+ * Checks the head branch of a pull request against the pattern registry
+ */
+function matchPullRequest(repo: Repository, pr: PullRequest, registry: PatternRegistry): PullRequestMatch | null {
+  const match = matchBranchName(registry, pr.head.ref)
+  if (!match) return null
+
+  // The head label is "owner:branch", with the fork's owner for pull requests from forks ("unknown" if it's gone)
+  const labelOwner = pr.head.label.split(':')[0]
+  return {
+    repository: repoKeyOf(repo),
+    prNumber: pr.number,
+    title: pr.title,
+    status: pr.status,
+    tool: match.tool,
+    username: match.username || pr.user.login,
+    branchName: pr.head.ref,
+    headOwner: getOwnerKey(labelOwner && labelOwner !== 'unknown' ? labelOwner : repo.owner.login, repo.host),
+    createdAt: pr.created_at,
+    url: pr.html_url,
+    ...scoreMatch(match, true),
+  }
 }
 
 /**
- * Checks if a branch name matches the required pattern
+ * Branches pushed to a fork belong to the fork's owner
  */
-function matchesBranchPattern(branchName: string): { matches: boolean; username?: string } {
-  // Pattern 1: "push-" followed by exactly 12 characters
-  const pattern1 = /^push-[a-zA-Z0-9]{12}$/
+function forkOwner(repo: Repository): string | undefined {
+  return repo.parent ? repo.owner.login : undefined
+}
 
-  // Pattern 2: any string containing "/push-" followed by exactly 12 characters
-  const pattern2 = /([^\/]+)\/push-[a-zA-Z0-9]{12}$/
+/**
+ * Walks the fork networks of the --forks-of repositories breadth first, down to --fork-depth.
+ * Forks with fewer than --fork-min-stars stars are skipped along with their own forks.
+ */
+async function getForkNetwork(options: CliOptions): Promise<Repository[]> {
+  const forks: Repository[] = []
 
-  if (pattern1.test(branchName)) {
-    return { matches: true }
-  }
+  for (const repoString of options.forksOf) {
+    const { host, owner, repo } = parseRepoSpec(repoString)
+    let parents = [{ owner, repo }]
 
-  const match = branchName.match(pattern2)
-  if (match && match[1]) {
-    return { matches: true, username: match[1] }
+    for (let depth = 1; depth <= options.forkDepth && parents.length > 0; depth++) {
+      const level: Repository[] = []
+
+      for (const parent of parents) {
+        try {
+          const children = await getForks(parent.owner, parent.repo, host)
+          level.push(...children.filter(fork => (fork.stars ?? 0) >= options.forkMinStars))
+        } catch (error) {
+          console.error(`Failed to list forks of ${parent.owner}/${parent.repo}:`, error)
+        }
+      }
+
+      forks.push(...level)
+      parents = level.map(fork => ({ owner: fork.owner.login, repo: fork.name }))
+    }
   }
 
-  return { matches: false }
+  console.log(`Found ${forks.length} forks to process`)
+  return forks
 }
 
 /**
- * Find all matching branches across repositories based on CLI options
+ * Lists the public members of the --org-members organizations, with the owner keys of their personal repositories
  */
-async function findMatchingBranches(options: CliOptions): Promise<BranchMatch[]> {
-  const matches: BranchMatch[] = []
-  let repositories: Repository[] = []
-  let processedRepos = 0
-  let cache = await getCache(options.forceRefresh)
+async function getOrgMemberList(options: CliOptions): Promise<OrgMember[]> {
+  const members: OrgMember[] = []
+
+  for (const orgSpec of options.orgMembers) {
+    const { host } = parseOwnerSpec(orgSpec)
+    try {
+      const logins = await getOrgMembers(orgSpec)
+      members.push(...logins.map(login => ({ org: orgSpec, login, ownerKey: getOwnerKey(login, host) })))
+    } catch (error) {
+      console.error(`Failed to list members of ${orgSpec}:`, error)
+    }
+  }
 
-  try {
-    // Process top repositories by stars if specified
-    if (options.topRepos && options.topRepos > 0) {
-      const topRepos = await getTopRepos(options.topRepos)
-      repositories.push(...topRepos)
+  return members
+}
+
+/**
+ * Lists the personal repositories of organization members, at most --member-max-repos per member
+ */
+async function getOrgMemberRepositories(options: CliOptions, members: OrgMember[]): Promise<Repository[]> {
+  const repositories: Repository[] = []
+
+  for (const member of members) {
+    try {
+      const memberRepos = await getRepositories(member.ownerKey)
+      repositories.push(...memberRepos.slice(0, options.memberMaxRepos))
+    } catch (error) {
+      console.error(`Failed to list repositories of member ${member.ownerKey}:`, error)
     }
+  }
 
-    // Process owner organizations/users
-    if (options.owners.length > 0) {
-      for (const owner of options.owners) {
-        const ownerRepos = await getRepositories(owner)
-        repositories.push(...ownerRepos)
-      }
+  return repositories
+}
+
+/**
+ * Progress of a search, e.g. "12/30 (limit: 30 of 500 total)" with --max-repos
+ */
+function repoLimitInfo(options: CliOptions, processedRepos: number, totalRepos: number): string {
+  return options.maxRepos
+    ? `${processedRepos}/${Math.min(options.maxRepos, totalRepos)} (limit: ${options.maxRepos} of ${totalRepos} total)`
+    : `${processedRepos}/${totalRepos}`
+}
+
+/**
+ * Lists the repositories to scan: the top repositories, those of the owners, the specific ones, fork networks and
+ * the personal repositories of organization members
+ * @param members The members of the --org-members organizations; listed from the options if not given
+ */
+async function listRepositories(options: CliOptions, members?: OrgMember[]): Promise<Repository[]> {
+  const repositories: Repository[] = []
+
+  // Process top repositories by stars if specified
+  if (options.topRepos && options.topRepos > 0) {
+    const topRepos = await getTopRepos(options.topRepos)
+    repositories.push(...topRepos)
+  }
+
+  // Process owner organizations/users
+  if (options.owners.length > 0) {
+    for (const owner of options.owners) {
+      const ownerRepos = await getRepositories(owner)
+      repositories.push(...ownerRepos)
     }
+  }
 
-    // Process specific repositories
-    if (options.repos.length > 0) {
-      for (const repoString of options.repos) {
-        const { owner, repo } = parseRepoString(repoString)
-        try {
-          const specificRepo = await getSpecificRepository(owner, repo)
-          repositories.push(specificRepo)
-        } catch (error) {
-          console.error(`Failed to add repository ${repoString}:`, error)
-        }
+  // Process specific repositories
+  if (options.repos.length > 0) {
+    for (const repoString of options.repos) {
+      const { host, owner, repo } = parseRepoSpec(repoString)
+      try {
+        const specificRepo = await getSpecificRepository(owner, repo, host)
+        repositories.push(specificRepo)
+      } catch (error) {
+        console.error(`Failed to add repository ${repoString}:`, error)
       }
     }
+  }
 
-    console.log(`Found ${repositories.length} repositories to process`)
+  // Process the fork networks of repositories
+  if (options.forksOf.length > 0) {
+    repositories.push(...await getForkNetwork(options))
+  }
 
-    // First, process all repositories (both cached and uncached)
-    // to get matches from all data we have
-    for (const repo of repositories) {
-      const repoKey = `${repo.owner.login}/${repo.name}`
+  // Process the personal repositories of organization members
+  if (options.orgMembers.length > 0) {
+    repositories.push(...await getOrgMemberRepositories(options, members ?? await getOrgMemberList(options)))
+  }
 
-      // If we have cached branches for this repo, use them for matching
-      if (cache.repositories[repoKey]?.branches) {
-        const branches = cache.repositories[repoKey].branches!
+  console.log(`Found ${repositories.length} repositories to process`)
+  return repositories
+}
 
-        for (const branch of branches) {
-          const { matches: isMatch, username } = matchesBranchPattern(branch.name)
-          if (isMatch) {
-            matches.push({
-              repository: `${repo.owner.login}/${repo.name}`,
-              branch: branch.name,
-              username,
-            })
-          }
-        }
-      }
-    }
+/**
+ * Splits the repositories of a phase into those served from the cache and those to fetch.
+ * A new phase serves fresh cached data, fetches as many of the other repositories as --max-repos leaves room for,
+ * and records that in the run journal. A resumed phase goes by its journal instead, so that it covers the same
+ * repositories however the cache changed in the meantime: done ones come from the cache, whatever their age.
+ * @param isFresh Whether a repository's data for the phase is cached and fresh
+ * @param isCached Whether a repository's data for the phase is cached at all
+ */
+function planRepositories(
+  options: CliOptions,
+  phase: JournalPhase,
+  repositories: Repository[],
+  isFresh: (repoKey: string) => boolean,
+  isCached: (repoKey: string) => boolean,
+): { cached: Repository[]; toFetch: Repository[]; skipped: number } {
+  const plan = getPhasePlan(phase)
+  if (plan) {
+    const cached = repositories.filter(repo => plan[repoKeyOf(repo)] === 'done' && isCached(repoKeyOf(repo)))
+    const toFetch = repositories.filter(repo => repoKeyOf(repo) in plan && !cached.includes(repo))
+    return { cached, toFetch, skipped: repositories.length - cached.length - toFetch.length }
+  }
 
-    // Filter repositories where we need to fetch branches
-    const reposToFetch = repositories.filter(repo => {
-      const repoKey = `${repo.owner.login}/${repo.name}`
-      return !cache.repositories[repoKey]?.branches
-    })
+  const cached = repositories.filter(repo => isFresh(repoKeyOf(repo)))
+  const uncached = repositories.filter(repo => !isFresh(repoKeyOf(repo)))
+
+  // Repositories beyond --max-repos are left out up front, so that the cutoff doesn't depend on
+  // the order in which concurrent fetches finish
+  const remainingRepos = options.maxRepos ? Math.max(options.maxRepos - cached.length, 0) : uncached.length
+  const toFetch = uncached.slice(0, remainingRepos)
+
+  planPhase(phase, {
+    ...Object.fromEntries(cached.map(repo => [repoKeyOf(repo), 'done' as const])),
+    ...Object.fromEntries(toFetch.map(repo => [repoKeyOf(repo), 'pending' as const])),
+  })
+  return { cached, toFetch, skipped: uncached.length - toFetch.length }
+}
 
-    if (reposToFetch.length < repositories.length) {
+/**
+ * The GraphQL ref queries that a run filters branches by; none with the REST backend, which fetches all branches
+ */
+function runRefQueries(options: CliOptions, registry: PatternRegistry): string[] {
+  return options.api === 'graphql' ? getRefQueries(registry) : []
+}
+
+/**
+ * Find all matching branches across repositories based on CLI options
+ * @param repositories The repositories to search; listed from the options if not given
+ */
+export async function findMatchingBranches(
+  options: CliOptions,
+  registry: PatternRegistry,
+  repositories?: Repository[],
+): Promise<BranchMatch[]> {
+  try {
+    const cache = await getCache(options.forceRefresh)
+    const repos = repositories ?? await listRepositories(options)
+    const refQueries = runRefQueries(options, registry)
+
+    const { cached, toFetch, skipped } = planRepositories(
+      options,
+      'branches',
+      repos,
+      repoKey => hasFreshBranches(cache, repoKey, refQueries),
+      repoKey => hasBranchesFor(cache, repoKey, refQueries),
+    )
+
+    // Matches by repository, reported in the order of the repositories
+    const matchesByRepo = new Map<string, BranchMatch[]>()
+
+    // First, match the cached branches
+    for (const repo of cached) {
+      const branches = cache.repositories[repoKeyOf(repo)].branches!
+      matchesByRepo.set(
+        repoKeyOf(repo),
+        branches.flatMap(branch => matchBranch(repoKeyOf(repo), branch, registry, forkOwner(repo)) ?? []),
+      )
+    }
+
+    if (cached.length > 0) {
       console.log(
-        `Using cached branches for ${repositories.length - reposToFetch.length} repositories, fetching for ${reposToFetch.length} repositories.`,
+        `Using cached branches for ${cached.length} repositories, fetching for ${toFetch.length + skipped} repositories.`,
       )
-      processedRepos = repositories.length - reposToFetch.length
     } else {
-      console.log(`Starting branch search on ${repositories.length} repositories.`)
+      console.log(`Starting branch search on ${repos.length} repositories.`)
+    }
+    let processedRepos = cached.length
+
+    // With the GraphQL backend, fetch branches (and PRs) for several repositories per request up front,
+    // so that getBranches and getPullRequests below are served from the cache.
+    // Only github.com repositories are prefetched, other forges go through their REST providers.
+    if (options.api === 'graphql') {
+      await prefetchWithGraphql(
+        toFetch.filter(repo => !repo.host),
+        refQueries,
+        options.includePrs,
+      )
     }
 
-    for (const repo of reposToFetch) {
+    let failedRepos = 0
+    await runPool(toFetch, options.concurrency, async repo => {
+      const found: BranchMatch[] = []
       try {
-        const branches = await getBranches(repo.owner.login, repo.name)
-        let matchFound = false
+        const branches = await getBranches(repo.owner.login, repo.name, repo.host, refQueries)
 
         for (const branch of branches) {
-          const { matches: isMatch, username } = matchesBranchPattern(branch.name)
-          if (isMatch) {
-            matchFound = true
-            matches.push({
-              repository: `${repo.owner.login}/${repo.name}`,
-              branch: branch.name,
-              username,
-            })
+          const match = matchBranch(repoKeyOf(repo), branch, registry, forkOwner(repo))
+          if (match) {
+            found.push(match)
           }
         }
+        matchesByRepo.set(repoKeyOf(repo), found)
+        markRepo('branches', repoKeyOf(repo), 'done')
+      } catch (error) {
+        console.error(`\nError processing repository ${repoKeyOf(repo)}:`, error instanceof Error ? error.message : error)
+        markRepo('branches', repoKeyOf(repo), 'failed')
+        failedRepos++
+      }
 
-        processedRepos++
-        if (!matchFound) {
-          const repoLimitInfo = options.maxRepos
-            ? `${processedRepos}/${
-              Math.min(options.maxRepos, repositories.length)
-            } (limit: ${options.maxRepos} of ${repositories.length} total)`
-            : `${processedRepos}/${repositories.length}`
-          process.stdout.write(`\rProcessed ${repoLimitInfo} repositories...`)
-        }
+      processedRepos++
+      if (found.length === 0) {
+        process.stdout.write(
+          `\rProcessed ${repoLimitInfo(options, processedRepos, repos.length)} repositories...${formatBudget()}`,
+        )
+      }
 
-        // Save cache after fetching branches
-        await persistCache()
+      // Save the cache once enough changes are pending, whether or not fetching succeeded
+      await persistCache()
+    })
 
-        // Check if we've reached the maxRepos limit
-        if (options.maxRepos && processedRepos >= options.maxRepos) {
-          console.log(
-            `\nReached maximum repository limit (${options.maxRepos} of ${repositories.length} total). Stopping search.`,
-          )
-          break
-        }
-      } catch (error) {
-        console.error(`Error processing repository ${repo.owner.login}/${repo.name}`)
-        processedRepos++
-
-        // Save cache even if processing failed
-        await persistCache()
-
-        // Also check after processing a repo with error
-        if (options.maxRepos && processedRepos >= options.maxRepos) {
-          console.log(
-            `\nReached maximum repository limit (${options.maxRepos} of ${repositories.length} total). Stopping search.`,
-          )
-          break
-        }
-      }
+    if (skipped > 0) {
+      console.log(
+        `\nReached maximum repository limit (${options.maxRepos} of ${repos.length} total). Stopping search.`,
+      )
+    }
+    if (failedRepos > 0) {
+      console.warn(`\nCould not fetch branches for ${failedRepos} repositories. The next run fetches them again.`)
     }
-
-    // Final cache update
-    await persistCache()
 
     process.stdout.write('\n')
-    return matches
+    return repos.flatMap(repo => matchesByRepo.get(repoKeyOf(repo)) ?? [])
   } catch (error) {
     console.error('Error finding matching branches:', error)
     throw error
   }
 }
 
-async function findMatchingPullRequests(options: CliOptions, repositories: Repository[]): Promise<PullRequestMatch[]> {
-  const matches: PullRequestMatch[] = []
-  let processedRepos = 0
-  let cache = await getCache(options.forceRefresh)
-
+export async function findMatchingPullRequests(
+  options: CliOptions,
+  repositories: Repository[],
+  registry: PatternRegistry,
+): Promise<PullRequestMatch[]> {
   try {
-    // First, process all repositories (both cached and uncached)
-    // to get matches from all data we have
-    for (const repo of repositories) {
-      const repoKey = `${repo.owner.login}/${repo.name}`
-
-      // If we have cached PRs for this repo, use them for matching
-      if (cache.repositories[repoKey]?.pullRequests) {
-        const pullRequests = cache.repositories[repoKey].pullRequests!
-
-        for (const pr of pullRequests) {
-          const { matches: isMatch, username } = matchesBranchPattern(pr.head.ref)
-          if (isMatch) {
-            matches.push({
-              repository: `${repo.owner.login}/${repo.name}`,
-              prNumber: pr.number,
-              title: pr.title,
-              status: pr.status,
-              username: username || pr.user.login,
-              branchName: pr.head.ref,
-              createdAt: pr.created_at,
-              url: pr.html_url,
-            })
-          }
-        }
-      }
+    const cache = await getCache(options.forceRefresh)
+
+    const { cached, toFetch, skipped } = planRepositories(
+      options,
+      'pullRequests',
+      repositories,
+      repoKey => hasFreshPullRequests(cache, repoKey),
+      repoKey => !!cache.repositories[repoKey]?.pullRequests,
+    )
+
+    // Matches by repository, reported in the order of the repositories
+    const matchesByRepo = new Map<string, PullRequestMatch[]>()
+
+    // First, match the cached PRs
+    for (const repo of cached) {
+      // The cache holds pull requests of every state, apply --pr-status here
+      const pullRequests = filterPullRequests(cache.repositories[repoKeyOf(repo)].pullRequests!, options.prStatus)
+      matchesByRepo.set(
+        repoKeyOf(repo),
+        pullRequests.flatMap(pr => matchPullRequest(repo, pr, registry) ?? []),
+      )
     }
 
-    // Filter repositories where we need to fetch PRs
-    const reposToFetch = repositories.filter(repo => {
-      const repoKey = `${repo.owner.login}/${repo.name}`
-      return !cache.repositories[repoKey]?.pullRequests
-    })
-
-    if (reposToFetch.length < repositories.length) {
+    if (cached.length > 0) {
       console.log(
-        `Using cached PRs for ${repositories.length - reposToFetch.length} repositories, fetching for ${reposToFetch.length} repositories.`,
+        `Using cached PRs for ${cached.length} repositories, fetching for ${toFetch.length + skipped} repositories.`,
       )
-      processedRepos = repositories.length - reposToFetch.length
     } else {
       console.log(`Starting PR search on ${repositories.length} repositories.`)
     }
+    let processedRepos = cached.length
 
-    for (const repo of reposToFetch) {
+    let failedRepos = 0
+    await runPool(toFetch, options.concurrency, async repo => {
+      const found: PullRequestMatch[] = []
       try {
         const pullRequests = await getPullRequests(
           repo.owner.login,
           repo.name,
           options.prStatus,
+          repo.host,
         )
 
-        let matchFound = false
         for (const pr of pullRequests) {
-          const { matches: isMatch, username } = matchesBranchPattern(pr.head.ref)
-          if (isMatch) {
-            matchFound = true
-            matches.push({
-              repository: `${repo.owner.login}/${repo.name}`,
-              prNumber: pr.number,
-              title: pr.title,
-              status: pr.status,
-              username: username || pr.user.login,
-              branchName: pr.head.ref,
-              createdAt: pr.created_at,
-              url: pr.html_url,
-            })
+          const match = matchPullRequest(repo, pr, registry)
+          if (match) {
+            found.push(match)
           }
         }
+        matchesByRepo.set(repoKeyOf(repo), found)
+        markRepo('pullRequests', repoKeyOf(repo), 'done')
+      } catch (error) {
+        console.error(
+          `\nError processing pull requests for repository ${repoKeyOf(repo)}:`,
+          error instanceof Error ? error.message : error,
+        )
+        markRepo('pullRequests', repoKeyOf(repo), 'failed')
+        failedRepos++
+      }
 
-        processedRepos++
-        if (!matchFound) {
-          const repoLimitInfo = options.maxRepos
-            ? `${processedRepos}/${
-              Math.min(options.maxRepos, repositories.length)
-            } (limit: ${options.maxRepos} of ${repositories.length} total)`
-            : `${processedRepos}/${repositories.length}`
-          process.stdout.write(`\rProcessed PR search in ${repoLimitInfo} repositories...`)
-        }
+      processedRepos++
+      if (found.length === 0) {
+        process.stdout.write(
+          `\rProcessed PR search in ${repoLimitInfo(options, processedRepos, repositories.length)} repositories...`
+            + formatBudget(),
+        )
+      }
 
-        // Save cache after fetching PRs
-        await persistCache()
+      // Save the cache once enough changes are pending, whether or not fetching succeeded
+      await persistCache()
+    })
 
-        // Check if we've reached the maxRepos limit
-        if (options.maxRepos && processedRepos >= options.maxRepos) {
-          console.log(
-            `\nReached maximum repository limit (${options.maxRepos} of ${repositories.length} total). Stopping PR search.`,
-          )
-          break
-        }
-      } catch (error) {
-        console.error(`Error processing pull requests for repository ${repo.owner.login}/${repo.name}`)
-        processedRepos++
-
-        // Save cache even if PR processing failed
-        await persistCache()
-
-        // Also check after processing a repo with error
-        if (options.maxRepos && processedRepos >= options.maxRepos) {
-          console.log(
-            `\nReached maximum repository limit (${options.maxRepos} of ${repositories.length} total). Stopping PR search.`,
-          )
-          break
-        }
-      }
+    if (skipped > 0) {
+      console.log(
+        `\nReached maximum repository limit (${options.maxRepos} of ${repositories.length} total). Stopping PR search.`,
+      )
+    }
+    if (failedRepos > 0) {
+      console.warn(`\nCould not fetch pull requests for ${failedRepos} repositories. The next run fetches them again.`)
     }
-
-    // Final cache update
-    await persistCache()
 
     process.stdout.write('\n')
-    return matches
+    return repositories.flatMap(repo => matchesByRepo.get(repoKeyOf(repo)) ?? [])
   } catch (error) {
     console.error('Error finding matching pull requests:', error)
     throw error
   }
 }
 
+/**
+ * Find matching pull requests anywhere on GitHub via the search API
+ */
+async function findGloballyMatchingPullRequests(
+  options: CliOptions,
+  registry: PatternRegistry,
+): Promise<PullRequestMatch[]> {
+  const results = await searchPullRequestsByHead('push-', new Date(options.searchSince), options.prStatus)
+
+  const matches: PullRequestMatch[] = []
+  for (const { repository, pullRequest } of results) {
+    const match = matchPullRequest(repository, pullRequest, registry)
+    if (match) {
+      matches.push(match)
+    }
+  }
+  return matches
+}
+
+/**
+ * Find matching branches in local clones and mirrors (--local), without any API calls.
+ * Branches whose tip is the head of a fetched pull request ref get the pull request signal.
+ */
+export async function findLocalBranches(options: CliOptions, registry: PatternRegistry): Promise<BranchMatch[]> {
+  const matches: BranchMatch[] = []
+
+  for (const localPath of options.local) {
+    try {
+      const { branches, pullRequestHeads } = await readLocalRefs(localPath)
+      console.log(`Found ${branches.length} branches in ${localPath}`)
+
+      for (const branch of branches) {
+        const authorName = usernameFromEmail(branch.author.email) ?? (branch.author.name || undefined)
+        const match = matchBranch(localPath, branch, registry, authorName)
+        if (!match) continue
+
+        if (pullRequestHeads.has(branch.commit.sha)) {
+          const signals = { ...match.signals, pullRequest: true }
+          matches.push({ ...match, signals, confidence: computeConfidence(signals) })
+        } else {
+          matches.push(match)
+        }
+      }
+    } catch (error) {
+      console.error(`Error reading refs from ${localPath}:`, error instanceof Error ? error.message : error)
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Merges PR matches from different sources, dropping duplicates
+ */
+function mergePullRequestMatches(...sources: PullRequestMatch[][]): PullRequestMatch[] {
+  const seen = new Set<string>()
+  return sources.flat().filter(match => {
+    const key = `${match.repository}#${match.prNumber}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Re-scores branch matches for which a matching pull request was found. Pull requests are matched by the owner
+ * of their head branch, as a branch pushed to a fork has its pull request in the upstream repository.
+ */
+export function withPullRequestSignal(branches: BranchMatch[], pullRequests: PullRequestMatch[]): BranchMatch[] {
+  const prBranches = new Set(pullRequests.map(pr => `${pr.headOwner}:${pr.branchName}`))
+
+  return branches.map(match => {
+    const ownerKey = match.repository.slice(0, match.repository.lastIndexOf('/'))
+    if (!prBranches.has(`${ownerKey}:${match.branch}`)) return match
+
+    const signals = { ...match.signals, pullRequest: true }
+    return { ...match, signals, confidence: computeConfidence(signals) }
+  })
+}
+
+/**
+ * Tells how to resume the current run, when it stops before it's finished
+ */
+function pointOutResume(): void {
+  const journal = getJournal()
+  if (journal && !journal.finishedAt) {
+    console.log(`Resume this run with --resume ${journal.id}`)
+  }
+}
+
 /**
  * Main execution function
  */
 async function main() {
   try {
-    const options = getCliOptions()
+    const cliOptions = getCliOptions()
+    const cacheDir = resolveCacheDir({ dir: cliOptions.cacheDir, profile: cliOptions.profile })
+
+    // A resumed run continues with the options that it was started with
+    const resumed = cliOptions.resume !== undefined ? await resumeJournal(cacheDir, cliOptions.resume) : null
+    const options = resumed ? resumedOptions(resumed, cliOptions) : cliOptions
+    if (resumed) {
+      console.log(`Resuming run ${resumed.id}, started ${new Date(resumed.startedAt).toLocaleString()}.`)
+    }
+    configureForges(options.forges)
+
+    const tokens = await loadTokens(options.tokenFile)
+    if (tokens.length > 0) {
+      configureTokenPool(tokens)
+      console.log(`Spreading GitHub requests over ${tokens.length} tokens.`)
+    }
+    setMaxAge(parseMaxAge(options.maxAge ?? ''))
+
+    if (options.record) {
+      configureRecorder('record', options.record)
+    } else if (options.replay) {
+      configureRecorder('replay', options.replay)
+    }
+    const registry = await loadPatternRegistry(options.patterns, options.config, { strict: options.strict })
+
+    if (options.api === 'graphql') {
+      const unfiltered = registry.filter(pattern => !pattern.refQuery).map(pattern => pattern.name)
+      if (unfiltered.length > 0) {
+        console.warn(
+          `Patterns without a ref query (${unfiltered.join(', ')}) are only matched against `
+            + 'pull request head branches when using --api graphql',
+        )
+      }
+    }
+
+    configureStorage(options.storage, { dir: options.cacheDir, profile: options.profile })
+    await lockCache()
 
     // Handle cache clearing if requested
     if (options.clearCache) {
       await clearCache()
     }
 
-    let cache = await getCache(options.forceRefresh)
+    await getCache(options.forceRefresh)
 
-    // Update cache with CLI options
-    cache = updateCliOptions(cache, options)
-    await persistCache()
+    // Journal what the run does, so that it can be resumed if it's interrupted; a dry run doesn't scan anything
+    if (!resumed && !options.dryRun) {
+      await startJournal(cacheDir, options)
+    }
 
-    // Gather repositories first as we'll need them for both branches and PRs
-    let repositories: Repository[] = []
+    // Cache writes are batched, so save the pending ones, and the journal with them, before exiting
+    process.once('beforeExit', () => flushCache('exiting'))
+    process.once('SIGINT', () => {
+      process.stdout.write('\n')
+      flushCache('interrupted').finally(() => {
+        printTokenUsage(DEFAULT_HOST)
+        pointOutResume()
+        process.exit(130)
+      })
+    })
 
-    // Process top repositories by stars if specified
-    if (options.topRepos && options.topRepos > 0) {
-      const topRepos = await getTopRepos(options.topRepos)
-      repositories.push(...topRepos)
+    // Add this run to the run history, which a resumed run is already in
+    if (!resumed && !options.dryRun) {
+      await startRun(options)
     }
 
-    // Process owner organizations/users
-    if (options.owners.length > 0) {
-      for (const owner of options.owners) {
-        const ownerRepos = await getRepositories(owner)
-        repositories.push(...ownerRepos)
-      }
-    }
+    // Organization members are listed once, for their repositories and for the member report
+    const members = options.orgMembers.length > 0 ? await getOrgMemberList(options) : []
 
-    // Process specific repositories
-    if (options.repos.length > 0) {
-      for (const repoString of options.repos) {
-        const { owner, repo } = parseRepoString(repoString)
-        try {
-          const specificRepo = await getSpecificRepository(owner, repo)
-          repositories.push(specificRepo)
-        } catch (error) {
-          console.error(`Failed to add repository ${repoString}:`, error)
-        }
-      }
+    // Gather repositories first as we'll need them for both branches and PRs.
+    // A resumed run scans the repositories that it listed before it was interrupted.
+    const listed = getJournal()?.repositories
+    if (listed) {
+      console.log(`Resuming with the ${listed.length} repositories listed by the run`)
     }
-
-    console.log(`Found ${repositories.length} repositories to process`)
+    const repositories = listed ?? await listRepositories(options, members)
+    setJournalRepositories(repositories)
 
     // Cache checkpoint - save repositories list
-    await persistCache()
+    await flushCache('repositories listed')
+
+    if (options.dryRun) {
+      const cache = await getCache()
+      await printEstimate(options, estimateScan(options, repositories, cache, runRefQueries(options, registry)))
+      return
+    }
 
     // Find matching branches
-    const matchingBranches = await findMatchingBranches(options)
+    let matchingBranches = await findMatchingBranches(options, registry, repositories)
+
+    // Find matching branches in local clones
+    if (options.local.length > 0) {
+      matchingBranches.push(...await findLocalBranches(options, registry))
+    }
 
     // Cache checkpoint after finding branches
-    await persistCache()
+    await flushCache('branches searched')
 
     let matchingPRs: PullRequestMatch[] = []
 
+    // Pull requests of every state, which give branches the pull request signal whatever --pr-status is
+    let signalPRs: PullRequestMatch[] = []
+
     // Find matching PRs if enabled
     if (options.includePrs) {
-      matchingPRs = await findMatchingPullRequests(options, repositories)
+      signalPRs = await findMatchingPullRequests({ ...options, prStatus: 'all' }, repositories, registry)
+      matchingPRs = signalPRs.filter(match => options.prStatus === 'all' || match.status === options.prStatus)
 
       // Cache checkpoint after finding PRs
-      await persistCache()
+      await flushCache('pull requests searched')
     }
 
-    if (matchingBranches.length === 0 && matchingPRs.length === 0) {
-      console.log('No matching branches or pull requests found.')
-      return
+    // Find matching PRs across all of GitHub if enabled
+    if (options.globalSearch) {
+      const globalPRs = await findGloballyMatchingPullRequests(options, registry)
+      matchingPRs = mergePullRequestMatches(matchingPRs, globalPRs)
+      signalPRs = mergePullRequestMatches(signalPRs, globalPRs)
+
+      // Cache checkpoint after the global search
+      await flushCache('global search done')
     }
 
-    // Group and display branch matches
-    if (matchingBranches.length > 0) {
-      // Group branches by repository
-      const repoMap = new Map<string, BranchMatch[]>()
-      matchingBranches.forEach(match => {
-        if (!repoMap.has(match.repository)) {
-          repoMap.set(match.repository, [])
-        }
-        repoMap.get(match.repository)!.push(match)
-      })
+    // All data has been collected
+    await finishRun()
 
-      console.log('\nRepositories with matching branches:')
-      repoMap.forEach((branches, repository) => {
-        console.log(`\n${repository}: ${branches.length} matching branches`)
-
-        // Group branches by username
-        const userBranches = new Map<string, number>()
-        branches.forEach(branch => {
-          const username = branch.username || '<no prefix>'
-          userBranches.set(username, (userBranches.get(username) || 0) + 1)
-        })
-
-        // Display user statistics
-        const userStats = Array.from(userBranches.entries())
-          .sort(([, a], [, b]) => b - a)
-          .map(([username, count]) => `  ${username}: ${count} branch${count > 1 ? 'es' : ''}`)
-        console.log(userStats.join('\n'))
-      })
+    // Branches that have a pull request are more likely to be real
+    matchingBranches = withPullRequestSignal(matchingBranches, signalPRs)
 
-      const repoCountInfo = options.maxRepos && repositories.length > options.maxRepos
-        ? `${repoMap.size} repositories (limited to first ${options.maxRepos} of ${repositories.length} total)`
-        : `${repoMap.size} repositories`
-      console.log(`\nTotal: ${matchingBranches.length} matching branches in ${repoCountInfo}`)
-    }
+    // Drop low-confidence matches
+    matchingBranches = matchingBranches.filter(match => match.confidence >= options.minConfidence)
+    matchingPRs = matchingPRs.filter(match => match.confidence >= options.minConfidence)
 
-    // Group and display PR matches
-    if (matchingPRs.length > 0) {
-      // Group PRs by repository
-      const prRepoMap = new Map<string, PullRequestMatch[]>()
-      matchingPRs.forEach(match => {
-        if (!prRepoMap.has(match.repository)) {
-          prRepoMap.set(match.repository, [])
-        }
-        prRepoMap.get(match.repository)!.push(match)
-      })
+    if (matchingBranches.length === 0 && matchingPRs.length === 0) {
+      console.log('No matching branches or pull requests found.')
+    } else {
+      // Display branch matches grouped by repository, tool and user
+      if (matchingBranches.length > 0) {
+        printBranchReport(matchingBranches, options, repositories.length + options.local.length)
+      }
 
-      console.log('\nRepositories with matching pull requests:')
-      prRepoMap.forEach((prs, repository) => {
-        console.log(`\n${repository}: ${prs.length} matching pull requests`)
-
-        // Group PRs by username
-        const userPRs = new Map<string, number>()
-        prs.forEach(pr => {
-          userPRs.set(pr.username, (userPRs.get(pr.username) || 0) + 1)
-        })
-
-        // Display user statistics
-        const userStats = Array.from(userPRs.entries())
-          .sort(([, a], [, b]) => b - a)
-          .map(([username, count]) => `  ${username}: ${count} PR${count > 1 ? 's' : ''}`)
-        console.log(userStats.join('\n'))
-      })
+      // Display PR matches grouped by repository, tool and user
+      if (matchingPRs.length > 0) {
+        printPullRequestReport(matchingPRs, options, repositories.length)
+      }
+
+      printUserToolReport(matchingBranches, matchingPRs)
+    }
 
-      const prRepoCountInfo = options.maxRepos && repositories.length > options.maxRepos
-        ? `${prRepoMap.size} repositories (limited to first ${options.maxRepos} of ${repositories.length} total)`
-        : `${prRepoMap.size} repositories`
-      console.log(`\nTotal: ${matchingPRs.length} matching pull requests in ${prRepoCountInfo}`)
+    // Display adoption among organization members, also when none of them has adopted any tool
+    if (options.orgMembers.length > 0) {
+      printMemberReport(members, matchingBranches, matchingPRs)
     }
+
+    printTokenUsage(DEFAULT_HOST)
   } catch (error) {
     console.error('Failed to complete search:', error)
+    await flushCache('search failed')
+    printTokenUsage(DEFAULT_HOST)
+    pointOutResume()
+    process.exit(1)
+  }
+}
+
+/**
+ * Entry point of the cache subcommands, which work on the cache without contacting any forge
+ */
+async function cacheMain() {
+  try {
+    const { command, storage, cacheDir, profile } = getCacheCommandOptions()
+    configureStorage(storage, { dir: cacheDir, profile })
+    await runCacheCommand(command)
+  } catch (error) {
+    console.error('Cache command failed:', error instanceof Error ? error.message : error)
     process.exit(1)
   }
 }
@@ -470,7 +767,8 @@ async function main() {
 // Only run the main function when this file is executed directly (not imported)
 // This check is to avoid running the main function during tests
 if (import.meta.url === `file://${process.argv[1]}`) {
-  main().catch(error => {
+  const entryPoint = isCacheCommand() ? cacheMain : main
+  entryPoint().catch(error => {
     console.error('Unhandled error:', error)
     process.exit(1)
   })
@@ -0,0 +1,210 @@
+import { randomBytes } from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+import type { CliOptions } from './cli.js'
+import type { Repository } from './github.js'
+
+export type RepoStatus = 'pending' | 'done' | 'failed'
+
+export type JournalPhase = 'branches' | 'pullRequests'
+
+/**
+ * What a run set out to do and how far it got, so that an interrupted run can be resumed with --resume
+ */
+export interface RunJournal {
+  id: string
+  startedAt: number
+  finishedAt?: number
+  options: CliOptions
+  repositories?: Repository[] // In the order of the scan; missing until they're listed
+  // Status of each repository in a phase, by repository key. A phase is missing until it starts; repositories
+  // beyond --max-repos aren't in it.
+  phases: Partial<Record<JournalPhase, Record<string, RepoStatus>>>
+}
+
+// Options that only change how a run goes about its work, which a resumed run takes from its own command line
+const RUNTIME_OPTIONS = ['concurrency', 'tokenFile', 'record', 'replay', 'storage', 'cacheDir', 'profile'] as const
+
+// Journals of finished runs that are kept
+const KEEP_FINISHED = 10
+
+// Journals of unfinished runs that are kept; older ones are unlikely to be resumed
+const KEEP_UNFINISHED = 10
+
+let journal: RunJournal | null = null
+
+// Directory of the journal files
+let journalDir = ''
+
+/**
+ * Directory of the journal files of a cache: "runs" in the cache directory
+ */
+function journalDirOf(cacheDir: string): string {
+  return path.join(cacheDir, 'runs')
+}
+
+/**
+ * Path of the journal file of a run
+ */
+function journalPath(dir: string, id: string): string {
+  return path.join(dir, `${id}.json`)
+}
+
+/**
+ * A run ID from the start time and a random suffix, so that runs started in the same second differ,
+ * e.g. "20250601-120000-3f9a"
+ */
+function createRunId(startedAt: number): string {
+  const time = new Date(startedAt).toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-')
+  return `${time}-${randomBytes(2).toString('hex')}`
+}
+
+/**
+ * Reads the journals in a directory, oldest first; files that can't be read are left out
+ */
+async function readJournals(dir: string): Promise<RunJournal[]> {
+  const files = await fs.readdir(dir).catch(() => [] as string[])
+  const journals = await Promise.all(
+    files.filter(file => file.endsWith('.json')).map(async file => {
+      try {
+        return JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8')) as RunJournal
+      } catch {
+        return null
+      }
+    }),
+  )
+
+  return journals.filter(entry => entry !== null).sort((a, b) => a.startedAt - b.startedAt)
+}
+
+/**
+ * Starts the journal of a new run and removes the journals of all but the latest finished and unfinished runs
+ * @param cacheDir Directory of the cache that the run uses
+ */
+export async function startJournal(cacheDir: string, options: CliOptions): Promise<RunJournal> {
+  const dir = journalDirOf(cacheDir)
+  const journals = await readJournals(dir)
+  const finished = journals.filter(entry => entry.finishedAt)
+  const unfinished = journals.filter(entry => !entry.finishedAt)
+  for (const entry of [...finished.slice(0, -KEEP_FINISHED), ...unfinished.slice(0, -KEEP_UNFINISHED)]) {
+    await fs.rm(journalPath(dir, entry.id), { force: true })
+  }
+
+  const startedAt = Date.now()
+  journalDir = dir
+  journal = { id: createRunId(startedAt), startedAt, options, phases: {} }
+  await saveJournal()
+  return journal
+}
+
+/**
+ * Continues the journal of an unfinished run
+ * @param cacheDir Directory of the cache that the run used
+ * @param runId The run to resume; the latest unfinished run if empty
+ */
+export async function resumeJournal(cacheDir: string, runId: string): Promise<RunJournal> {
+  const dir = journalDirOf(cacheDir)
+  const unfinished = (await readJournals(dir)).filter(entry => !entry.finishedAt)
+  const resumed = runId ? unfinished.find(entry => entry.id === runId) : unfinished[unfinished.length - 1]
+  if (!resumed) {
+    throw new Error(runId ? `There is no unfinished run ${runId} in ${dir}` : `There is no unfinished run in ${dir}`)
+  }
+
+  journalDir = dir
+  journal = resumed
+  return journal
+}
+
+/**
+ * The options of a resumed run: the ones it was started with, except those that don't change what it finds
+ */
+export function resumedOptions(resumed: RunJournal, options: CliOptions): CliOptions {
+  const runtime = Object.fromEntries(RUNTIME_OPTIONS.map(name => [name, options[name]]))
+  return { ...resumed.options, ...runtime, clearCache: false, dryRun: false }
+}
+
+/**
+ * The journal of the current run; null without one, e.g. in dry runs and tests
+ */
+export function getJournal(): RunJournal | null {
+  return journal
+}
+
+/**
+ * Forgets the journal of the current run, for tests
+ */
+export function resetJournal(): void {
+  journal = null
+}
+
+/**
+ * Records the repositories that the run scans
+ */
+export function setJournalRepositories(repositories: Repository[]): void {
+  if (journal) {
+    journal.repositories = repositories
+  }
+}
+
+/**
+ * Records the repositories of a phase as it starts
+ * @param statuses By repository key: done for those served from the cache, pending for those to fetch
+ */
+export function planPhase(phase: JournalPhase, statuses: Record<string, RepoStatus>): void {
+  if (journal) {
+    journal.phases[phase] = statuses
+  }
+}
+
+/**
+ * The repositories of a phase, as planned when it started; undefined if it hasn't started
+ */
+export function getPhasePlan(phase: JournalPhase): Record<string, RepoStatus> | undefined {
+  return journal?.phases[phase]
+}
+
+/**
+ * Records how a repository of a phase went
+ */
+export function markRepo(phase: JournalPhase, repoKey: string, status: RepoStatus): void {
+  const statuses = journal?.phases[phase]
+  if (statuses) {
+    statuses[repoKey] = status
+  }
+}
+
+/**
+ * The journal as it is now, to be saved once the cache holds everything that it records as done
+ */
+export function snapshotJournal(): string | null {
+  return journal && JSON.stringify(journal, null, 2)
+}
+
+/**
+ * Writes the journal of the current run
+ * @param snapshot What to write (see snapshotJournal); the journal as it is now by default
+ */
+export async function saveJournal(snapshot = snapshotJournal()): Promise<void> {
+  if (!journal || snapshot === null) return
+
+  // Written next to the journal and renamed over it, so that an interrupted write doesn't leave a truncated one
+  const filePath = journalPath(journalDir, journal.id)
+  const tempPath = `${filePath}.${process.pid}.tmp`
+  try {
+    await fs.mkdir(journalDir, { recursive: true })
+    await fs.writeFile(tempPath, snapshot, 'utf-8')
+    await fs.rename(tempPath, filePath)
+  } catch (error) {
+    console.error('Error saving the run journal:', error)
+  }
+}
+
+/**
+ * Records the end of the current run, after which it can't be resumed anymore
+ */
+export async function finishJournal(): Promise<void> {
+  if (!journal) return
+
+  journal.finishedAt = Date.now()
+  await saveJournal()
+}
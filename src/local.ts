@@ -0,0 +1,79 @@
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import type { Branch } from './github.js'
+
+const execFileAsync = promisify(execFile)
+
+// A branch read from a local clone or mirror, with the author of its tip commit
+export interface LocalBranch extends Branch {
+  author: {
+    name: string
+    email: string
+  }
+}
+
+export interface LocalRefs {
+  branches: LocalBranch[]
+  pullRequestHeads: Set<string> // Commits that refs/pull/<number>/head point to
+}
+
+// Fields are separated by NUL bytes, which can't appear in ref names or author names
+const REF_FORMAT = '%(refname)%00%(objectname)%00%(authorname)%00%(authoremail)'
+
+/**
+ * Gets a username from a commit author email. GitHub's noreply addresses contain the login,
+ * other addresses fall back to the local part.
+ */
+export function usernameFromEmail(email: string): string | undefined {
+  const address = email.replace(/^<|>$/g, '')
+  const noreply = address.match(/^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/)
+  if (noreply) return noreply[1]
+
+  const localPart = address.split('@')[0]
+  return localPart || undefined
+}
+
+/**
+ * Reads branches from a local clone or bare mirror: refs/heads, refs/remotes and, when fetched,
+ * refs/pull/<number>/head. A branch present both locally and on remotes is listed once.
+ */
+export async function readLocalRefs(repoPath: string): Promise<LocalRefs> {
+  const { stdout } = await execFileAsync(
+    'git',
+    ['-C', repoPath, 'for-each-ref', `--format=${REF_FORMAT}`, 'refs/heads', 'refs/remotes', 'refs/pull'],
+    { maxBuffer: 256 * 1024 * 1024 },
+  )
+
+  const branches = new Map<string, LocalBranch>()
+  const pullRequestHeads = new Set<string>()
+
+  for (const line of stdout.split('\n')) {
+    if (!line) continue
+    const [refName, sha, authorName, authorEmail] = line.split('\0')
+
+    if (/^refs\/pull\/\d+\/head$/.test(refName)) {
+      pullRequestHeads.add(sha)
+      continue
+    }
+
+    // refs/heads/<branch> or refs/remotes/<remote>/<branch>
+    const name = refName.startsWith('refs/heads/')
+      ? refName.slice('refs/heads/'.length)
+      : refName.split('/').slice(3).join('/')
+    if (!name || name === 'HEAD' || branches.has(name)) continue
+
+    branches.set(name, {
+      name,
+      commit: {
+        sha,
+        url: `${repoPath}#${sha}`,
+      },
+      author: {
+        name: authorName,
+        email: authorEmail,
+      },
+    })
+  }
+
+  return { branches: Array.from(branches.values()), pullRequestHeads }
+}
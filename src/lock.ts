@@ -0,0 +1,135 @@
+import { readFileSync, unlinkSync } from 'fs'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+
+// Contents of a lock file: the process holding the lock
+interface LockOwner {
+  pid: number
+  hostname: string
+  acquiredAt: number
+}
+
+export interface Lock {
+  path: string
+  // Marks the lock as in use, so that runs on other hosts don't take it over
+  refresh(): Promise<void>
+  release(): void
+}
+
+// Whether a process on another host is still running can't be checked; its lock is stale when it hasn't been
+// refreshed for this long
+export const STALE_LOCK_AGE = 2 * 60 * 60 * 1000
+
+/**
+ * Checks whether a process on this host is running
+ */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM: running, but owned by another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+/**
+ * Reads a lock file; null if it doesn't exist anymore
+ */
+async function readLock(lockPath: string): Promise<{ owner: LockOwner | null; modifiedAt: number } | null> {
+  try {
+    const [data, stats] = await Promise.all([fs.readFile(lockPath, 'utf-8'), fs.stat(lockPath)])
+    let owner: LockOwner | null = null
+    try {
+      owner = JSON.parse(data)
+    } catch {
+      // Not written by this tool; treated as stale
+    }
+    return { owner, modifiedAt: stats.mtimeMs }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+/**
+ * Checks whether a lock was left behind by a run that is gone: a process on this host that isn't running anymore,
+ * or a run on another host that hasn't refreshed the lock for STALE_LOCK_AGE
+ */
+function isStale(owner: LockOwner | null, modifiedAt: number): boolean {
+  if (!owner || typeof owner.pid !== 'number') return true
+  if (owner.hostname === os.hostname()) return !isRunning(owner.pid)
+  return Date.now() - modifiedAt > STALE_LOCK_AGE
+}
+
+/**
+ * Takes an advisory lock by creating a lock file, which is removed when the process exits.
+ * Stale locks are taken over; a lock held by a running process is an error.
+ */
+export async function acquireLock(lockPath: string): Promise<Lock> {
+  const owner: LockOwner = { pid: process.pid, hostname: os.hostname(), acquiredAt: Date.now() }
+
+  // The lock file is written completely before it's linked into place, so other runs never see a partial one
+  await fs.mkdir(path.dirname(lockPath), { recursive: true })
+  const tempPath = `${lockPath}.${process.pid}.tmp`
+  const contents = JSON.stringify(owner)
+  await fs.writeFile(tempPath, contents, 'utf-8')
+
+  let acquired = false
+  try {
+    for (let attempt = 0; attempt < 3 && !acquired; attempt++) {
+      try {
+        await fs.link(tempPath, lockPath)
+        acquired = true
+        continue
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+      }
+
+      const existing = await readLock(lockPath)
+      if (existing && !isStale(existing.owner, existing.modifiedAt)) {
+        const { pid, hostname, acquiredAt } = existing.owner!
+        throw new Error(
+          `The cache is in use by another run (process ${pid} on ${hostname}, since `
+            + `${new Date(acquiredAt).toLocaleString()}). If that run is gone, delete ${lockPath}.`,
+        )
+      }
+
+      if (existing) {
+        console.warn(`Taking over the stale cache lock of process ${existing.owner?.pid ?? 'unknown'}.`)
+        await fs.rm(lockPath, { force: true })
+      }
+    }
+  } finally {
+    await fs.rm(tempPath, { force: true })
+  }
+  if (!acquired) {
+    throw new Error(`Could not take the cache lock ${lockPath}: other runs keep taking it`)
+  }
+
+  // Synchronous, as it also runs on exit
+  const release = (): void => {
+    process.removeListener('exit', release)
+    try {
+      // Leave the lock alone if another run took it over as stale
+      if (readFileSync(lockPath, 'utf-8') === contents) {
+        unlinkSync(lockPath)
+      }
+    } catch {
+      // Already gone
+    }
+  }
+  process.on('exit', release)
+
+  return {
+    path: lockPath,
+
+    async refresh(): Promise<void> {
+      const now = new Date()
+      await fs.utimes(lockPath, now, now).catch(() => {})
+    },
+
+    release,
+  }
+}
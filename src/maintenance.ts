@@ -0,0 +1,215 @@
+import fs from 'fs/promises'
+import {
+  type CacheData,
+  exportCache,
+  getCachePath,
+  type InvalidateKind,
+  invalidateOwner,
+  invalidateRepository,
+  loadCache,
+  lockCache,
+  mergeCache,
+  pruneCache,
+  readExportedCache,
+  saveCache,
+} from './cache.js'
+import type { CacheCommand } from './cli.js'
+import { DEFAULT_HOST } from './forge.js'
+
+const HOUR = 60 * 60 * 1000
+
+// Age buckets of the stats, by upper bound in hours
+const AGE_BUCKETS: [string, number][] = [
+  ['< 1h', 1],
+  ['< 1d', 24],
+  ['< 1w', 7 * 24],
+  ['< 30d', 30 * 24],
+  ['older', Infinity],
+]
+
+/**
+ * Formats the age of cached data, e.g. "3h ago"
+ */
+function formatAge(timestamp: number | undefined): string {
+  if (!timestamp) return 'unknown age'
+
+  const hours = (Date.now() - timestamp) / HOUR
+  if (hours < 1) return `${Math.floor(hours * 60)}m ago`
+  if (hours < 48) return `${Math.floor(hours)}h ago`
+  return `${Math.floor(hours / 24)}d ago`
+}
+
+/**
+ * Formats a file size, e.g. "1.5 MB"
+ */
+function formatSize(bytes: number): string {
+  const units = ['B', 'kB', 'MB', 'GB']
+  let size = bytes
+  let unit = 0
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024
+    unit++
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`
+}
+
+/**
+ * Counts timestamps per age bucket, as "< 1h: 3, < 1d: 5, ..." without empty buckets
+ */
+function formatAgeDistribution(timestamps: (number | undefined)[]): string {
+  if (timestamps.length === 0) return 'none'
+
+  const counts = AGE_BUCKETS.map(([label, maxHours]) => ({ label, maxHours, count: 0 }))
+  for (const timestamp of timestamps) {
+    const hours = (Date.now() - (timestamp ?? 0)) / HOUR
+    counts.find(bucket => hours < bucket.maxHours)!.count++
+  }
+
+  return counts.filter(bucket => bucket.count > 0).map(bucket => `${bucket.label}: ${bucket.count}`).join(', ')
+}
+
+/**
+ * Turns an owner or repository spec into a cache key, which has no host on github.com
+ */
+function toCacheKey(spec: string): string {
+  return spec.startsWith(`${DEFAULT_HOST}/`) ? spec.slice(DEFAULT_HOST.length + 1) : spec
+}
+
+/**
+ * Prints counts, ages and the size of the cached data
+ */
+async function printStats(cache: CacheData): Promise<void> {
+  const entries = Object.values(cache.repositories)
+  const withBranches = entries.filter(entry => entry.branches)
+  const withPullRequests = entries.filter(entry => entry.pullRequests)
+  const pullRequests = withPullRequests.flatMap(entry => entry.pullRequests!)
+  const repoLists = [
+    ...Object.values(cache.ownerRepos ?? {}),
+    ...Object.values(cache.forks ?? {}),
+    ...Object.values(cache.orgMembers ?? {}),
+    ...cache.topRepos ? [cache.topRepos] : [],
+  ]
+
+  const cachePath = await getCachePath()
+  const size = await fs.stat(cachePath).then(stats => formatSize(stats.size), () => 'not written yet')
+
+  console.log(`Cache: ${cachePath} (${size})`)
+  console.log(`Repositories: ${entries.length}`)
+  console.log(
+    `Branches: ${withBranches.reduce((sum, entry) => sum + entry.branches!.length, 0)} `
+      + `in ${withBranches.length} repositories`,
+  )
+  console.log(
+    `Pull requests: ${pullRequests.length} (${pullRequests.filter(pr => pr.status === 'open').length} open) `
+      + `in ${withPullRequests.length} repositories`,
+  )
+  console.log(
+    `Repository lists: ${Object.keys(cache.ownerRepos ?? {}).length} owners, `
+      + `${Object.keys(cache.forks ?? {}).length} fork lists, ${Object.keys(cache.orgMembers ?? {}).length} member lists`
+      + (cache.topRepos ? `, top ${cache.topRepos.count} repositories` : ''),
+  )
+  console.log(`Global search windows: ${Object.keys(cache.globalSearch ?? {}).length}`)
+
+  console.log('\nAge of cached data:')
+  console.log(`  Branches: ${formatAgeDistribution(withBranches.map(entry => entry.branchesTimestamp))}`)
+  console.log(`  Pull requests: ${formatAgeDistribution(withPullRequests.map(entry => entry.pullRequestsTimestamp))}`)
+  console.log(`  Repository lists: ${formatAgeDistribution(repoLists.map(list => list.timestamp))}`)
+
+  const runs = cache.runs ?? []
+  if (runs.length > 0) {
+    const lastRun = runs[runs.length - 1]
+    console.log(
+      `\nRuns: ${runs.length}, last started ${formatAge(lastRun.startedAt)}`
+        + (lastRun.finishedAt ? '' : ' (did not finish)'),
+    )
+  }
+}
+
+/**
+ * Prints the cached repositories, optionally of one owner, with their branch and pull request counts
+ */
+function printRepositories(cache: CacheData, owner?: string): void {
+  const repoKeys = Object.keys(cache.repositories)
+    .filter(repoKey => !owner || repoKey.startsWith(`${owner}/`))
+    .sort()
+
+  if (repoKeys.length === 0) {
+    console.log(owner ? `No cached repositories of ${owner}.` : 'No cached repositories.')
+    return
+  }
+
+  for (const repoKey of repoKeys) {
+    const entry = cache.repositories[repoKey]
+    const branches = entry.branches
+      ? `${entry.branches.length} branches (${formatAge(entry.branchesTimestamp)})`
+      : 'branches not cached'
+    const pullRequests = entry.pullRequests
+      ? `${entry.pullRequests.length} pull requests (${formatAge(entry.pullRequestsTimestamp)})`
+      : 'pull requests not cached'
+    console.log(`${repoKey}: ${branches}, ${pullRequests}`)
+  }
+}
+
+/**
+ * Drops cached data of a repository or an owner. A target that is a cached repository is treated as one,
+ * anything else as an owner.
+ */
+function invalidate(cache: CacheData, target: string, kinds: InvalidateKind[]): CacheData {
+  if (cache.repositories[target]) {
+    console.log(`Dropping cached ${kinds.join(', ')} of ${target}`)
+    return invalidateRepository(cache, target, kinds)
+  }
+
+  const isCached = Object.keys(cache.repositories).some(repoKey => repoKey.startsWith(`${target}/`))
+    || !!cache.ownerRepos?.[target] || !!cache.orgMembers?.[target]
+  if (!isCached) {
+    throw new Error(`Nothing is cached for ${target}`)
+  }
+
+  console.log(`Dropping cached ${kinds.join(', ')} of ${target} and its repositories`)
+  return invalidateOwner(cache, target, kinds)
+}
+
+/**
+ * Runs a cache subcommand
+ */
+export async function runCacheCommand(command: CacheCommand): Promise<void> {
+  // Reading the cache is fine while a run uses it, changing it is not
+  if (command.action === 'invalidate' || command.action === 'prune' || command.action === 'import') {
+    await lockCache()
+  }
+  const cache = await loadCache(false)
+
+  switch (command.action) {
+    case 'stats':
+      await printStats(cache)
+      break
+
+    case 'ls':
+      printRepositories(cache, command.owner && toCacheKey(command.owner))
+      break
+
+    case 'invalidate':
+      await saveCache(invalidate(cache, toCacheKey(command.target), command.only))
+      break
+
+    case 'prune': {
+      const { cache: pruned, pruned: count } = pruneCache(cache, command.olderThan)
+      await saveCache(pruned)
+      console.log(`Dropped ${count} cached lists older than ${command.duration}.`)
+      break
+    }
+
+    case 'export':
+      await exportCache(cache, command.file)
+      console.log(`Exported ${Object.keys(cache.repositories).length} cached repositories to ${command.file}.`)
+      break
+
+    case 'import': {
+      const imported = await readExportedCache(command.file)
+      await saveCache(mergeCache(cache, imported))
+      console.log(`Imported ${Object.keys(imported.repositories).length} cached repositories from ${command.file}.`)
+      break
+    }
+  }
+}
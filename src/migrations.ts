@@ -0,0 +1,60 @@
+import type { CacheData } from './cache.js'
+
+// Version of the cache layout written by this version of the tool.
+// Bump it and add a migration whenever CacheData, Repository, Branch or PullRequest change incompatibly.
+export const CACHE_SCHEMA_VERSION = 2
+
+type StoredCache = Record<string, unknown>
+
+// Upgrades a cache to the version of the key from the version before it
+const MIGRATIONS: Record<number, (cache: StoredCache) => StoredCache> = {
+  // Version 1 had no version field, and cliOptions that only ever held the defaults: drop them and start a run history
+  2: ({ cliOptions: _cliOptions, ...cache }) => ({
+    ...cache,
+    schemaVersion: 2,
+    runs: [],
+  }),
+}
+
+const isObject = (value: unknown): value is StoredCache =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Check the parts of a cache that everything else relies on
+const validateCache = (cache: StoredCache): void => {
+  if (!isObject(cache.repositories)) {
+    throw new Error('it has no repositories')
+  }
+
+  for (const [repoKey, entry] of Object.entries(cache.repositories)) {
+    const data = isObject(entry) && isObject(entry.data) ? entry.data : undefined
+    if (typeof data?.name !== 'string' || !isObject(data.owner) || typeof data.owner.login !== 'string') {
+      throw new Error(`repository ${repoKey} has no name or owner`)
+    }
+  }
+}
+
+// Upgrade a cache written by this or an older version of the tool, throwing if that isn't possible
+export const migrateCache = (stored: unknown): CacheData => {
+  if (!isObject(stored)) {
+    throw new Error('it is not an object')
+  }
+
+  const version = stored.schemaVersion ?? 1
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`it has an invalid schema version (${String(version)})`)
+  }
+  if (version > CACHE_SCHEMA_VERSION) {
+    throw new Error(
+      `it was written with schema version ${version} by a newer version of the tool, which supports up to version `
+        + CACHE_SCHEMA_VERSION,
+    )
+  }
+
+  let cache = stored
+  for (let next = version + 1; next <= CACHE_SCHEMA_VERSION; next++) {
+    cache = MIGRATIONS[next](cache)
+  }
+
+  validateCache(cache)
+  return cache as unknown as CacheData
+}
@@ -0,0 +1,358 @@
+import fs from 'fs/promises'
+
+/**
+ * Result of a successful pattern match
+ */
+export interface PatternMatch {
+  pattern: string // Name of the pattern that matched
+  tool: string // Workflow tool that produces branches of this shape
+  username?: string // Extracted username from branch pattern
+  changeId?: string // Extracted change id, if the pattern has one
+  standardPrefix: boolean // Whether the branch uses the tool's default naming shape
+  // Id checks for tools whose ids aren't jj change ids; defaults to checking changeId
+  idSignals?: { alphabet: boolean; length: boolean }
+}
+
+/**
+ * Signals that contribute to the confidence score of a match
+ */
+export interface ConfidenceSignals {
+  alphabet: boolean // Id only uses the tool's alphabet (for jj: reversed hex, k-z)
+  length: boolean // Id has the tool's default length
+  prefix: boolean // Branch uses the default prefix shape
+  pullRequest: boolean // A pull request exists for the branch
+}
+
+/**
+ * Options for building the pattern registry
+ */
+export interface PatternRegistryOptions {
+  strict?: boolean // Only accept jj matches whose change id uses the real change-id alphabet
+}
+
+/**
+ * A named detector for branch names produced by some workflow tool
+ */
+export interface BranchPattern {
+  name: string
+  tool: string
+  refQuery?: string // Server-side branch name filter for the GraphQL backend
+  match: (branchName: string) => PatternMatch | null
+}
+
+/**
+ * Pattern definition as it appears in a config file
+ */
+export interface PatternDefinition {
+  name: string
+  regex: string
+  tool?: string
+  refQuery?: string
+}
+
+// Ordered list of patterns; the first one that matches wins
+export type PatternRegistry = BranchPattern[]
+
+// jj change ids are written in "reversed hex": 0-9a-f mapped onto z-k
+const CHANGE_ID_ALPHABET = /^[k-z]+$/
+const CHANGE_ID_LENGTH = 12
+
+// How much each signal contributes to the confidence score (sums to 1)
+const CONFIDENCE_WEIGHTS: Record<keyof ConfidenceSignals, number> = {
+  alphabet: 0.4,
+  length: 0.2,
+  prefix: 0.2,
+  pullRequest: 0.2,
+}
+
+/**
+ * Checks whether a string looks like a jj change id
+ */
+export function isChangeId(value: string | undefined): boolean {
+  return value !== undefined && CHANGE_ID_ALPHABET.test(value)
+}
+
+/**
+ * Built-in jj patterns: "push-" followed by exactly 12 characters,
+ * optionally prefixed with "<username>/"
+ */
+export const jjPushPattern: BranchPattern = {
+  name: 'jj-push',
+  tool: 'jj',
+  refQuery: 'push-',
+  match: (branchName: string) => {
+    // Pattern 1: "push-" followed by exactly 12 characters
+    const pattern1 = /^push-([a-zA-Z0-9]{12})$/
+
+    // Pattern 2: any string containing "/push-" followed by exactly 12 characters
+    const pattern2 = /([^\/]+)\/push-([a-zA-Z0-9]{12})$/
+
+    const bareMatch = branchName.match(pattern1)
+    if (bareMatch) {
+      return { pattern: 'jj-push', tool: 'jj', changeId: bareMatch[1], standardPrefix: true }
+    }
+
+    const match = branchName.match(pattern2)
+    if (match && match[1]) {
+      // A "user/push-" prefix is the common git.push-bookmark-prefix setup;
+      // anything deeper is less likely to come from jj
+      const standardPrefix = branchName === `${match[1]}/push-${match[2]}`
+      return { pattern: 'jj-push', tool: 'jj', username: match[1], changeId: match[2], standardPrefix }
+    }
+
+    return null
+  },
+}
+
+// Ids of the tools below are fully checked by their regexes
+const VERIFIED_ID = { alphabet: true, length: true }
+
+/**
+ * ghstack: "gh/<username>/<n>/head" (the base, orig and next branches of
+ * the same stack entry are skipped so each PR is only counted once)
+ */
+export const ghstackPattern: BranchPattern = {
+  name: 'ghstack',
+  tool: 'ghstack',
+  refQuery: 'gh/',
+  match: (branchName: string) => {
+    const match = branchName.match(/^gh\/([^\/]+)\/\d+\/head$/)
+    if (!match) return null
+    return { pattern: 'ghstack', tool: 'ghstack', username: match[1], standardPrefix: true, idSignals: VERIFIED_ID }
+  },
+}
+
+/**
+ * spr: ejoffe/spr uses "spr/<target>/<8 hex commit id>", getcord/spr uses
+ * "spr/<username>/<title>"
+ */
+export const sprPattern: BranchPattern = {
+  name: 'spr',
+  tool: 'spr',
+  refQuery: 'spr/',
+  match: (branchName: string) => {
+    if (/^spr\/[^\/]+\/[0-9a-f]{8}$/.test(branchName)) {
+      return { pattern: 'spr', tool: 'spr', standardPrefix: true, idSignals: VERIFIED_ID }
+    }
+
+    const match = branchName.match(/^spr\/([^\/]+)\/[^\/]+$/)
+    if (!match) return null
+    return {
+      pattern: 'spr',
+      tool: 'spr',
+      username: match[1],
+      standardPrefix: true,
+      idSignals: { alphabet: true, length: false },
+    }
+  },
+}
+
+/**
+ * Sapling: "sl pr submit" pushes to "pr<N>" branches
+ */
+export const saplingPattern: BranchPattern = {
+  name: 'sapling',
+  tool: 'sapling',
+  refQuery: 'pr',
+  match: (branchName: string) => {
+    if (!/^pr\d+$/.test(branchName)) return null
+    return { pattern: 'sapling', tool: 'sapling', standardPrefix: true, idSignals: VERIFIED_ID }
+  },
+}
+
+/**
+ * Graphite: generated branch names look like "MM-DD-<title_with_underscores>",
+ * optionally behind a "<username>/" branch prefix
+ */
+export const graphitePattern: BranchPattern = {
+  name: 'graphite',
+  tool: 'graphite',
+  match: (branchName: string) => {
+    const match = branchName.match(/^(?:([^\/]+)\/)?(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])-[a-z0-9_]+$/)
+    if (!match) return null
+
+    const result: PatternMatch = { pattern: 'graphite', tool: 'graphite', standardPrefix: true, idSignals: VERIFIED_ID }
+    if (match[1]) result.username = match[1]
+    return result
+  },
+}
+
+// Built-in patterns, in the order they are tried. git-branchless pushes the
+// branch names chosen by the user, so it can only be detected via custom patterns.
+export const builtinPatterns: BranchPattern[] = [
+  jjPushPattern,
+  ghstackPattern,
+  sprPattern,
+  saplingPattern,
+  graphitePattern,
+]
+
+/**
+ * Creates a pattern from a regular expression. The username is taken from
+ * the named group "user" if present, otherwise from the first capture group.
+ * The change id is taken from the named group "id".
+ */
+export function createRegexPattern(definition: PatternDefinition): BranchPattern {
+  const { name, tool = 'jj', refQuery } = definition
+
+  let regex: RegExp
+  try {
+    regex = new RegExp(definition.regex)
+  } catch (error) {
+    throw new Error(`Invalid regex for pattern "${name}": ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  return {
+    name,
+    tool,
+    refQuery,
+    match: (branchName: string) => {
+      const match = branchName.match(regex)
+      if (!match) return null
+
+      const username = match.groups?.user ?? match[1]
+      const result: PatternMatch = { pattern: name, tool, standardPrefix: false }
+      if (username) result.username = username
+      if (match.groups?.id) result.changeId = match.groups.id
+      return result
+    },
+  }
+}
+
+/**
+ * Parses a pattern given on the command line, in the format "name=regex" or just "regex"
+ */
+export function parsePatternSpec(spec: string): PatternDefinition {
+  const separator = spec.indexOf('=')
+  if (separator > 0) {
+    const name = spec.slice(0, separator)
+    // Only treat the prefix as a name if it looks like one, so that regexes
+    // containing "=" (e.g. lookaheads) can be passed without a name
+    if (/^[\w.-]+$/.test(name)) {
+      return { name, regex: spec.slice(separator + 1) }
+    }
+  }
+  return { name: spec, regex: spec }
+}
+
+/**
+ * Loads pattern definitions from a JSON config file with a "patterns" array
+ */
+export async function loadPatternConfig(configPath: string): Promise<PatternDefinition[]> {
+  let config: { patterns?: unknown }
+  try {
+    config = JSON.parse(await fs.readFile(configPath, 'utf-8'))
+  } catch (error) {
+    throw new Error(
+      `Failed to read config file ${configPath}: ${error instanceof Error ? error.message : String(error)}`,
+    )
+  }
+
+  if (config.patterns === undefined) return []
+  if (!Array.isArray(config.patterns)) {
+    throw new Error(`Invalid config file ${configPath}: "patterns" must be an array`)
+  }
+
+  return config.patterns.map((entry, index) => {
+    if (!entry || typeof entry.name !== 'string' || typeof entry.regex !== 'string') {
+      throw new Error(`Invalid config file ${configPath}: pattern #${index + 1} needs a "name" and a "regex"`)
+    }
+    return { name: entry.name, regex: entry.regex, tool: entry.tool, refQuery: entry.refQuery }
+  })
+}
+
+/**
+ * Wraps a jj pattern so that it only accepts matches with a real change id
+ */
+function strictPattern(pattern: BranchPattern): BranchPattern {
+  return {
+    ...pattern,
+    match: (branchName: string) => {
+      const match = pattern.match(branchName)
+      return match && isChangeId(match.changeId) ? match : null
+    },
+  }
+}
+
+/**
+ * Builds the pattern registry: built-in patterns first, then user-supplied ones
+ */
+export function createPatternRegistry(
+  definitions: PatternDefinition[] = [],
+  options: PatternRegistryOptions = {},
+): PatternRegistry {
+  const patterns = [...builtinPatterns, ...definitions.map(createRegexPattern)]
+  if (!options.strict) return patterns
+
+  return patterns.map(pattern => pattern.tool === 'jj' ? strictPattern(pattern) : pattern)
+}
+
+/**
+ * Loads the pattern registry from CLI pattern specs and an optional config file
+ */
+export async function loadPatternRegistry(
+  specs: string[],
+  configPath?: string,
+  options: PatternRegistryOptions = {},
+): Promise<PatternRegistry> {
+  const definitions = configPath ? await loadPatternConfig(configPath) : []
+  definitions.push(...specs.map(parsePatternSpec))
+  return createPatternRegistry(definitions, options)
+}
+
+/**
+ * Collects the distinct server-side branch name filters of the registry
+ */
+export function getRefQueries(registry: PatternRegistry): string[] {
+  return Array.from(new Set(registry.flatMap(pattern => pattern.refQuery ? [pattern.refQuery] : [])))
+}
+
+/**
+ * Checks a branch name against every pattern in the registry
+ */
+export function matchBranchName(registry: PatternRegistry, branchName: string): PatternMatch | null {
+  for (const pattern of registry) {
+    const match = pattern.match(branchName)
+    if (match) return match
+  }
+  return null
+}
+
+/**
+ * Collects the confidence signals for a match
+ */
+export function getConfidenceSignals(match: PatternMatch, pullRequest: boolean): ConfidenceSignals {
+  const idSignals = match.idSignals ?? {
+    alphabet: isChangeId(match.changeId),
+    length: match.changeId?.length === CHANGE_ID_LENGTH,
+  }
+
+  return {
+    ...idSignals,
+    prefix: match.standardPrefix,
+    pullRequest,
+  }
+}
+
+/**
+ * Combines confidence signals into a score between 0 and 1
+ */
+export function computeConfidence(signals: ConfidenceSignals): number {
+  let score = 0
+  for (const signal of Object.keys(CONFIDENCE_WEIGHTS) as (keyof ConfidenceSignals)[]) {
+    if (signals[signal]) score += CONFIDENCE_WEIGHTS[signal]
+  }
+  // Avoid floating point noise like 0.6000000000000001
+  return Math.round(score * 100) / 100
+}
+
+/**
+ * Computes the signals and confidence score for a match
+ */
+export function scoreMatch(
+  match: PatternMatch,
+  pullRequest: boolean,
+): { signals: ConfidenceSignals; confidence: number } {
+  const signals = getConfidenceSignals(match, pullRequest)
+  return { signals, confidence: computeConfidence(signals) }
+}
@@ -0,0 +1,164 @@
+import { type ForgeConfig, type ForgeProvider, getRepoKey, type OwnerKind } from '../forge.js'
+import type { Branch, PullRequest, Repository } from '../github.js'
+import { fetchAllPages, fetchJson } from './http.js'
+
+interface GiteaRepository {
+  name: string
+  owner: { login: string }
+  html_url: string
+  stars_count: number
+}
+
+interface GiteaUser {
+  login: string
+}
+
+interface GiteaBranch {
+  name: string
+  commit: { id: string; url: string }
+}
+
+interface GiteaPullRequest {
+  number: number
+  title: string
+  state: 'open' | 'closed'
+  created_at: string
+  updated_at: string
+  merged_at: string | null
+  closed_at: string | null
+  head: { ref: string; label: string }
+  base: { ref: string }
+  user: { login: string } | null
+  html_url: string
+}
+
+// Gitea's default maximum page size
+const PAGE_SIZE = 50
+
+/**
+ * Gitea and Forgejo provider (e.g. Codeberg)
+ */
+export function createGiteaProvider(config: ForgeConfig): ForgeProvider {
+  const { host, baseUrl } = config
+  const token = process.env.GITEA_TOKEN
+  const headers: Record<string, string> = token ? { authorization: `token ${token}` } : {}
+
+  const repoUrl = (owner: string, repo: string) =>
+    `${baseUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`
+
+  const toRepository = (repo: GiteaRepository): Repository => ({
+    name: repo.name,
+    owner: {
+      login: repo.owner.login,
+    },
+    url: repo.html_url,
+    stars: repo.stars_count,
+    host,
+  })
+
+  return {
+    host,
+    kind: 'gitea',
+    pageSize: PAGE_SIZE,
+
+    async ownerKind(owner: string): Promise<OwnerKind> {
+      try {
+        await fetchJson(`${baseUrl}/orgs/${encodeURIComponent(owner)}`, headers)
+        return 'organization'
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('Not Found')) {
+          return 'user'
+        }
+        throw error
+      }
+    },
+
+    async listOwnerRepos(owner: string, kind: OwnerKind): Promise<Repository[]> {
+      const listUrl = kind === 'organization'
+        ? `${baseUrl}/orgs/${encodeURIComponent(owner)}/repos`
+        : `${baseUrl}/users/${encodeURIComponent(owner)}/repos`
+      const repos = await fetchAllPages<GiteaRepository>(
+        page => `${listUrl}?limit=${PAGE_SIZE}&page=${page}`,
+        PAGE_SIZE,
+        headers,
+      )
+      return repos.map(toRepository)
+    },
+
+    async listOrgMembers(org: string): Promise<string[]> {
+      const members = await fetchAllPages<GiteaUser>(
+        page => `${baseUrl}/orgs/${encodeURIComponent(org)}/public_members?limit=${PAGE_SIZE}&page=${page}`,
+        PAGE_SIZE,
+        headers,
+      )
+      return members.map(member => member.login)
+    },
+
+    async getRepo(owner: string, repo: string): Promise<Repository> {
+      return toRepository(await fetchJson<GiteaRepository>(repoUrl(owner, repo), headers))
+    },
+
+    async listForks(owner: string, repo: string): Promise<Repository[]> {
+      const forks = await fetchAllPages<GiteaRepository>(
+        page => `${repoUrl(owner, repo)}/forks?limit=${PAGE_SIZE}&page=${page}`,
+        PAGE_SIZE,
+        headers,
+      )
+      return forks.map(fork => ({ ...toRepository(fork), parent: getRepoKey(owner, repo, host) }))
+    },
+
+    async listBranches(owner: string, repo: string): Promise<Branch[]> {
+      const branches = await fetchAllPages<GiteaBranch>(
+        page => `${repoUrl(owner, repo)}/branches?limit=${PAGE_SIZE}&page=${page}`,
+        PAGE_SIZE,
+        headers,
+      )
+      return branches.map(branch => ({
+        name: branch.name,
+        commit: {
+          sha: branch.commit.id,
+          url: branch.commit.url,
+        },
+      }))
+    },
+
+    async listPullRequests(
+      owner: string,
+      repo: string,
+      prStatus: 'open' | 'closed' | 'all',
+      since?: string,
+    ): Promise<PullRequest[]> {
+      // Gitea can't filter pull requests by update time, so page through the most recently updated ones
+      const isUpdated = (pr: GiteaPullRequest) => !since || Date.parse(pr.updated_at) > Date.parse(since)
+      const pullRequests = await fetchAllPages<GiteaPullRequest>(
+        page =>
+          `${repoUrl(owner, repo)}/pulls?state=${prStatus}&sort=${since ? 'recentupdate' : 'newest'}`
+          + `&limit=${PAGE_SIZE}&page=${page}`,
+        PAGE_SIZE,
+        headers,
+        pageItems => !pageItems.every(isUpdated),
+      )
+
+      return pullRequests.filter(isUpdated).map(pr => ({
+        number: pr.number,
+        title: pr.title,
+        status: pr.state,
+        created_at: pr.created_at,
+        updated_at: pr.updated_at,
+        merged_at: pr.merged_at,
+        closed_at: pr.closed_at,
+        head: {
+          ref: pr.head.ref,
+          label: pr.head.label,
+        },
+        base: {
+          ref: pr.base.ref,
+        },
+        user: {
+          login: pr.user?.login || 'unknown',
+        },
+        html_url: pr.html_url,
+      }))
+    },
+  }
+}
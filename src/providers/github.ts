@@ -0,0 +1,487 @@
+import { Octokit } from '@octokit/rest'
+import {
+  type ConditionalListing,
+  type ForgeConfig,
+  type ForgeProvider,
+  getRepoKey,
+  type OwnerKind,
+} from '../forge.js'
+import type { Branch, PullRequest, Repository } from '../github.js'
+import { execAsync } from '../index.js'
+import { attachRecorder, isReplaying } from '../recorder.js'
+import { getBudget, pauseIfBudgetUsedUp, rateLimitResource, recordRateLimit, waitUntilReset } from '../ratelimit.js'
+import { pauseRequests, sleep, waitForRequests } from '../scheduler.js'
+import { hasTokenPool, pickToken, type PooledToken, tokenBudgetKey, tokenPoolSize } from '../tokens.js'
+
+const GITHUB_COM: ForgeConfig = { host: 'github.com', kind: 'github', baseUrl: 'https://api.github.com' }
+
+// GitHub asks to wait at least a minute after a secondary rate limit when it doesn't say how long
+const SECONDARY_RATE_LIMIT_WAIT = 60 * 1000
+// Retries of a request, after rate limits and server errors; server errors are retried after 1, 2 and 4 seconds
+const MAX_RETRIES = 3
+const SERVER_ERROR_WAIT = 1000
+let serverErrorWait = SERVER_ERROR_WAIT
+
+// Cache the GitHub tokens so we only get them once per host
+const cachedGithubTokens = new Map<string, string | null>()
+
+/**
+ * Attempt to get a GitHub token from the environment or the GitHub CLI
+ * @param host github.com or a GitHub Enterprise host
+ * @returns The GitHub token or null if it couldn't be retrieved
+ */
+async function getGitHubToken(host: string): Promise<string | null> {
+  const cachedToken = cachedGithubTokens.get(host)
+  if (cachedToken) {
+    return cachedToken
+  }
+
+  const isEnterprise = host !== GITHUB_COM.host
+  const envName = isEnterprise ? 'GH_ENTERPRISE_TOKEN' : 'GITHUB_TOKEN'
+
+  try {
+    // Try to get the token from environment first
+    const envToken = process.env[envName]
+    if (envToken) {
+      cachedGithubTokens.set(host, envToken)
+      return envToken
+    }
+
+    // Try to get the token from GitHub CLI
+    console.log(`No ${envName} in environment, attempting to get token from GitHub CLI...`)
+    const { stdout, stderr } = await execAsync(isEnterprise ? `gh auth token --hostname ${host}` : 'gh auth token')
+
+    if (stderr) {
+      console.error('Error getting GitHub token from CLI:', stderr)
+      return null
+    }
+
+    const token = stdout.trim()
+    if (!token) {
+      console.error('GitHub CLI returned an empty token. Please run "gh auth login" first.')
+      return null
+    }
+
+    // Cache the token
+    cachedGithubTokens.set(host, token)
+    return token
+  } catch (error) {
+    console.error('Failed to get GitHub token:', error instanceof Error ? error.message : String(error))
+    console.error('Make sure GitHub CLI is installed and you are authenticated.')
+    console.error(`Run "gh auth login" to authenticate or set the ${envName} environment variable.`)
+    return null
+  }
+}
+
+// A failed request, shaped like Octokit's RequestError
+interface FailedRequest {
+  status?: number
+  message?: string
+  response?: { headers?: Record<string, string | number | undefined> }
+}
+
+/**
+ * Decides whether and when to retry a failed request. Rate limits pause the requests of all workers,
+ * as they would hit them too; server errors (including network errors, which Octokit reports as status 500)
+ * only delay the failed request.
+ * @param attempt Number of retries so far
+ * @returns The wait in milliseconds, or undefined if the request shouldn't be retried
+ */
+export function getRetryDelay(error: unknown, attempt: number): { wait: number; pauseAll?: string } | undefined {
+  const { status, message = '', response } = error as FailedRequest
+  const headers = response?.headers ?? {}
+  if (attempt >= MAX_RETRIES || status === undefined) return undefined
+
+  if ((status === 403 || status === 429) && /secondary rate limit/i.test(message)) {
+    const retryAfter = Number(headers['retry-after'])
+    return {
+      wait: retryAfter > 0 ? retryAfter * 1000 : SECONDARY_RATE_LIMIT_WAIT,
+      pauseAll: 'Hit a secondary rate limit',
+    }
+  }
+
+  if ((status === 403 || status === 429) && String(headers['x-ratelimit-remaining']) === '0') {
+    const wait = waitUntilReset(Number(headers['x-ratelimit-reset']) * 1000)
+    return { wait: Math.max(wait, 1000), pauseAll: 'Rate limit exceeded' }
+  }
+
+  if (status >= 500) {
+    return { wait: serverErrorWait * 2 ** attempt }
+  }
+
+  return undefined
+}
+
+/**
+ * Sets the wait before the first retry after a server error, which doubles with every further retry
+ * @param ms The wait in milliseconds, e.g. 0 in tests; 1 second by default
+ */
+export function setServerErrorWait(ms = SERVER_ERROR_WAIT): void {
+  serverErrorWait = ms
+}
+
+// Body of a GET /rate_limit response, in the parts that we use
+interface RateLimitResponse {
+  resources: Record<string, { limit: number; remaining: number; reset: number }>
+}
+
+/**
+ * Takes the token of the pool with the most remaining budget, waiting for the first reset if all are used up
+ */
+async function acquireToken(host: string, resource: string): Promise<PooledToken> {
+  for (;;) {
+    const picked = pickToken(host, resource)
+    if ('value' in picked) return picked
+
+    pauseRequests(waitUntilReset(picked.resetAt), 'All GitHub tokens used up')
+    await waitForRequests()
+  }
+}
+
+/**
+ * Initialize Octokit with GitHub token from environment or GitHub CLI.
+ * With a token pool (GITHUB_TOKENS or --token-file), each github.com request gets a token of the pool instead.
+ * @param config The GitHub instance to talk to (github.com by default)
+ */
+export async function getOctokit(config: ForgeConfig = GITHUB_COM): Promise<Octokit> {
+  // Replayed responses don't need a token
+  const pooled = config.host === GITHUB_COM.host && hasTokenPool() && !isReplaying()
+  const token = isReplaying() || pooled ? null : await getGitHubToken(config.host)
+
+  if (!token && !pooled && !isReplaying()) {
+    console.warn('No GitHub token available. API rate limits will be severely restricted.')
+    console.warn('Certain operations may fail due to rate limiting.')
+  }
+
+  const octokit = new Octokit({
+    auth: token,
+    baseUrl: config.baseUrl,
+  })
+  attachRecorder(octokit)
+
+  // Throttling: requests wait while the rate limit budget is used up or another request hit a rate limit,
+  // and are retried after rate limits and server errors
+  octokit.hook.wrap('request', async (request, options) => {
+    const { url } = octokit.request.endpoint.parse(options)
+    const resource = rateLimitResource(url)
+    const budgetKeyOf = (token: PooledToken | undefined, resource: string) =>
+      token ? tokenBudgetKey(config.host, token, resource) : `${config.host}/${resource}`
+
+    for (let attempt = 0;;) {
+      const pooledToken = pooled ? await acquireToken(config.host, resource) : undefined
+      const budgetKey = budgetKeyOf(pooledToken, resource)
+
+      pauseIfBudgetUsedUp(budgetKey)
+      await waitForRequests()
+      try {
+        if (pooledToken) {
+          pooledToken.requests++
+          options.headers = { ...options.headers, authorization: `token ${pooledToken.value}` }
+        }
+        const response = await request(options)
+
+        // /rate_limit reports the budgets of all resources, not only the one in its headers
+        if (url.endsWith('/rate_limit')) {
+          for (const [name, budget] of Object.entries((response.data as RateLimitResponse).resources)) {
+            recordRateLimit(budgetKeyOf(pooledToken, name), {
+              'x-ratelimit-limit': budget.limit,
+              'x-ratelimit-remaining': budget.remaining,
+              'x-ratelimit-reset': budget.reset,
+            })
+          }
+        }
+        recordRateLimit(budgetKey, response.headers)
+        return response
+      } catch (error) {
+        recordRateLimit(budgetKey, (error as FailedRequest).response?.headers ?? {})
+
+        const retry = getRetryDelay(error, attempt)
+        if (!retry) throw error
+
+        // Another token of the pool takes over from one whose budget is used up, which doesn't count as a retry
+        if (pooledToken && getBudget(budgetKey)?.remaining === 0) continue
+
+        attempt++
+        if (retry.pauseAll) {
+          pauseRequests(retry.wait, retry.pauseAll)
+        } else {
+          console.warn(`Request to ${url} failed (${(error as FailedRequest).message}), retrying.`)
+          await sleep(retry.wait)
+        }
+      }
+    }
+  })
+
+  return octokit
+}
+
+/**
+ * Asks github.com what is left of its rate limits, for every token of the pool, which the request hook records.
+ * Requests to /rate_limit don't count against the rate limits.
+ */
+export async function checkRateLimit(): Promise<void> {
+  const octokit = await getOctokit()
+
+  // The pool sends each request to a token whose budget isn't known yet while there is one
+  for (let checked = 0; checked < Math.max(tokenPoolSize(), 1); checked++) {
+    await octokit.request('GET /rate_limit')
+  }
+}
+
+const PAGE_SIZE = 100
+
+// Fields of a pull request in the REST API that we use
+interface GitHubPullRequest {
+  number: number
+  title: string
+  state: 'open' | 'closed'
+  created_at: string
+  updated_at: string
+  merged_at: string | null
+  closed_at: string | null
+  head: { ref: string; label: string }
+  base: { ref: string }
+  user: { login: string } | null
+  html_url: string
+}
+
+/**
+ * Pages through a GitHub list endpoint with conditional requests. Each page is requested with the
+ * validators recorded for it in the previous listing; pages answered with 304 Not Modified, which
+ * don't count against the rate limit, are taken from the previous listing.
+ * @param isUpdated With a listing sorted by update time, keeps items until the first one that wasn't updated.
+ *   An unchanged page then means nothing was updated, so the listing stops there.
+ * @param params Request parameters, including per_page: PAGE_SIZE
+ */
+async function listPages<T, R>(
+  octokit: Octokit,
+  route: string,
+  params: Record<string, unknown>,
+  map: (item: T) => R,
+  conditional: ConditionalListing<R> = { previous: [], previousPages: {}, pages: {} },
+  isUpdated?: (item: T) => boolean,
+): Promise<R[]> {
+  const items: R[] = []
+
+  for (let page = 1;; page++) {
+    // Leave out page=1 so that the first URL is the same as with octokit.paginate
+    const pageParams = page > 1 ? { ...params, page } : params
+    const url = octokit.request.endpoint(route, pageParams).url
+    const validator = conditional.previousPages[url]
+
+    const headers: Record<string, string> = {}
+    if (validator?.etag) headers['if-none-match'] = validator.etag
+    if (validator?.lastModified) headers['if-modified-since'] = validator.lastModified
+
+    let response
+    try {
+      response = await octokit.request(route, { ...pageParams, headers })
+    } catch (error) {
+      if (!validator || (error as { status?: number }).status !== 304) throw error
+      if (isUpdated) break
+
+      const unchanged = conditional.previous.slice(validator.offset, validator.offset + validator.count)
+      conditional.pages[url] = { ...validator, offset: items.length }
+      items.push(...unchanged)
+
+      if (validator.count < PAGE_SIZE) break
+      continue
+    }
+
+    const pageItems = response.data as T[]
+    const kept = isUpdated ? pageItems.filter(isUpdated) : pageItems
+    conditional.pages[url] = {
+      etag: response.headers.etag,
+      lastModified: response.headers['last-modified'],
+      offset: items.length,
+      count: kept.length,
+    }
+    items.push(...kept.map(map))
+
+    if (pageItems.length < PAGE_SIZE || kept.length < pageItems.length) break
+  }
+
+  return items
+}
+
+/**
+ * GitHub provider, for github.com and GitHub Enterprise Server
+ */
+export function createGitHubProvider(config: ForgeConfig): ForgeProvider {
+  const host = config.host
+  // Repositories on github.com are stored without a host
+  const repoHost = host === GITHUB_COM.host ? undefined : host
+
+  return {
+    host,
+    kind: 'github',
+    pageSize: PAGE_SIZE,
+
+    async ownerKind(owner: string): Promise<OwnerKind> {
+      const octokit = await getOctokit(config)
+
+      try {
+        // Try to get the organization profile
+        await octokit.orgs.get({
+          org: owner,
+        })
+
+        // If no error is thrown, it's an organization
+        return 'organization'
+      } catch (error) {
+        // If we get a 404, it's not an organization, so it's likely a user
+        if (error instanceof Error && error.message.includes('Not Found')) {
+          return 'user'
+        }
+        // For any other error, re-throw it
+        throw error
+      }
+    },
+
+    async listOwnerRepos(
+      owner: string,
+      kind: OwnerKind,
+      conditional?: ConditionalListing<Repository>,
+    ): Promise<Repository[]> {
+      const octokit = await getOctokit(config)
+
+      // Repositories of an organization or of a user
+      const [route, params] = kind === 'organization'
+        ? ['GET /orgs/{org}/repos', { org: owner, per_page: PAGE_SIZE, sort: 'full_name' }]
+        : ['GET /users/{username}/repos', { username: owner, per_page: PAGE_SIZE, sort: 'full_name' }]
+
+      return await listPages<{ name: string; owner: { login: string }; html_url: string }, Repository>(
+        octokit,
+        route,
+        params,
+        repo => ({
+          name: repo.name,
+          owner: {
+            login: repo.owner.login,
+          },
+          url: repo.html_url,
+          host: repoHost,
+        }),
+        conditional,
+      )
+    },
+
+    async listOrgMembers(org: string): Promise<string[]> {
+      const octokit = await getOctokit(config)
+
+      // Only public members are visible without being a member of the organization
+      const members = await octokit.paginate('GET /orgs/{org}/public_members', {
+        org,
+        per_page: 100,
+      })
+
+      return members.map(member => member.login)
+    },
+
+    async getRepo(owner: string, repo: string): Promise<Repository> {
+      const octokit = await getOctokit(config)
+      const response = await octokit.repos.get({
+        owner,
+        repo,
+      })
+
+      return {
+        name: response.data.name,
+        owner: {
+          login: response.data.owner.login,
+        },
+        url: response.data.html_url,
+        host: repoHost,
+      }
+    },
+
+    async listForks(owner: string, repo: string): Promise<Repository[]> {
+      const octokit = await getOctokit(config)
+
+      const forks = await octokit.paginate('GET /repos/{owner}/{repo}/forks', {
+        owner,
+        repo,
+        per_page: 100,
+        sort: 'newest',
+      })
+
+      return forks.map(fork => ({
+        name: fork.name,
+        owner: {
+          login: fork.owner.login,
+        },
+        url: fork.html_url,
+        stars: fork.stargazers_count,
+        host: repoHost,
+        parent: getRepoKey(owner, repo, repoHost),
+      }))
+    },
+
+    async listBranches(owner: string, repo: string, conditional?: ConditionalListing<Branch>): Promise<Branch[]> {
+      const octokit = await getOctokit(config)
+
+      return await listPages<{ name: string; commit: { sha: string; url: string } }, Branch>(
+        octokit,
+        'GET /repos/{owner}/{repo}/branches',
+        { owner, repo, per_page: PAGE_SIZE },
+        branch => ({
+          name: branch.name,
+          commit: {
+            sha: branch.commit.sha,
+            url: branch.commit.url,
+          },
+        }),
+        conditional,
+      )
+    },
+
+    async listPullRequests(
+      owner: string,
+      repo: string,
+      prStatus: 'open' | 'closed' | 'all',
+      since?: string,
+      conditional?: ConditionalListing<PullRequest>,
+    ): Promise<PullRequest[]> {
+      const octokit = await getOctokit(config)
+
+      // The pulls API can't filter by update time, so with since, page through the most recently
+      // updated pull requests until reaching older ones
+      const isUpdated = since ? (pr: GitHubPullRequest) => Date.parse(pr.updated_at) > Date.parse(since) : undefined
+
+      return await listPages<GitHubPullRequest, PullRequest>(
+        octokit,
+        'GET /repos/{owner}/{repo}/pulls',
+        {
+          owner,
+          repo,
+          state: prStatus,
+          sort: since ? 'updated' : 'created', // Sort by update or creation date
+          direction: 'desc', // Newest first
+          per_page: PAGE_SIZE,
+        },
+        pr => ({
+          number: pr.number,
+          title: pr.title,
+          status: pr.state,
+          created_at: pr.created_at,
+          updated_at: pr.updated_at,
+          merged_at: pr.merged_at,
+          closed_at: pr.closed_at,
+          head: {
+            ref: pr.head.ref,
+            label: pr.head.label,
+          },
+          base: {
+            ref: pr.base.ref,
+          },
+          user: {
+            login: pr.user?.login || 'unknown',
+          },
+          html_url: pr.html_url,
+        }),
+        conditional,
+        isUpdated,
+      )
+    },
+  }
+}
@@ -0,0 +1,167 @@
+import { type ForgeConfig, type ForgeProvider, getRepoKey, type OwnerKind } from '../forge.js'
+import type { Branch, PullRequest, Repository } from '../github.js'
+import { fetchAllPages, fetchJson } from './http.js'
+
+interface GitLabProject {
+  path: string
+  namespace: { full_path: string }
+  web_url: string
+  star_count: number
+}
+
+interface GitLabMember {
+  username: string
+}
+
+interface GitLabBranch {
+  name: string
+  commit: { id: string }
+}
+
+interface GitLabMergeRequest {
+  iid: number
+  title: string
+  state: 'opened' | 'closed' | 'merged' | 'locked'
+  created_at: string
+  updated_at: string
+  merged_at: string | null
+  closed_at: string | null
+  source_branch: string
+  target_branch: string
+  author: { username: string } | null
+  web_url: string
+}
+
+const PAGE_SIZE = 100
+
+/**
+ * GitLab provider; merge requests are reported as pull requests
+ */
+export function createGitLabProvider(config: ForgeConfig): ForgeProvider {
+  const { host, baseUrl } = config
+  const token = process.env.GITLAB_TOKEN
+  const headers: Record<string, string> = token ? { 'private-token': token } : {}
+
+  // GitLab addresses projects and groups by their URL-encoded full path
+  const projectUrl = (owner: string, repo: string) => `${baseUrl}/projects/${encodeURIComponent(`${owner}/${repo}`)}`
+
+  const toRepository = (project: GitLabProject): Repository => ({
+    name: project.path,
+    owner: {
+      login: project.namespace.full_path,
+    },
+    url: project.web_url,
+    stars: project.star_count,
+    host,
+  })
+
+  return {
+    host,
+    kind: 'gitlab',
+    pageSize: PAGE_SIZE,
+
+    async ownerKind(owner: string): Promise<OwnerKind> {
+      try {
+        await fetchJson(`${baseUrl}/groups/${encodeURIComponent(owner)}`, headers)
+        return 'organization'
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('Not Found')) {
+          return 'user'
+        }
+        throw error
+      }
+    },
+
+    async listOwnerRepos(owner: string, kind: OwnerKind): Promise<Repository[]> {
+      const listUrl = kind === 'organization'
+        ? `${baseUrl}/groups/${encodeURIComponent(owner)}/projects`
+        : `${baseUrl}/users/${encodeURIComponent(owner)}/projects`
+      const projects = await fetchAllPages<GitLabProject>(
+        page => `${listUrl}?per_page=${PAGE_SIZE}&page=${page}&order_by=path&sort=asc`,
+        PAGE_SIZE,
+        headers,
+      )
+      return projects.map(toRepository)
+    },
+
+    async listOrgMembers(org: string): Promise<string[]> {
+      // Direct members of the group, as visible to the token
+      const members = await fetchAllPages<GitLabMember>(
+        page => `${baseUrl}/groups/${encodeURIComponent(org)}/members?per_page=${PAGE_SIZE}&page=${page}`,
+        PAGE_SIZE,
+        headers,
+      )
+      return members.map(member => member.username)
+    },
+
+    async getRepo(owner: string, repo: string): Promise<Repository> {
+      return toRepository(await fetchJson<GitLabProject>(projectUrl(owner, repo), headers))
+    },
+
+    async listForks(owner: string, repo: string): Promise<Repository[]> {
+      const forks = await fetchAllPages<GitLabProject>(
+        page => `${projectUrl(owner, repo)}/forks?per_page=${PAGE_SIZE}&page=${page}`,
+        PAGE_SIZE,
+        headers,
+      )
+      return forks.map(fork => ({ ...toRepository(fork), parent: getRepoKey(owner, repo, host) }))
+    },
+
+    async listBranches(owner: string, repo: string): Promise<Branch[]> {
+      const branches = await fetchAllPages<GitLabBranch>(
+        page => `${projectUrl(owner, repo)}/repository/branches?per_page=${PAGE_SIZE}&page=${page}`,
+        PAGE_SIZE,
+        headers,
+      )
+      return branches.map(branch => ({
+        name: branch.name,
+        commit: {
+          sha: branch.commit.id,
+          url: `${projectUrl(owner, repo)}/repository/commits/${branch.commit.id}`,
+        },
+      }))
+    },
+
+    async listPullRequests(
+      owner: string,
+      repo: string,
+      prStatus: 'open' | 'closed' | 'all',
+      since?: string,
+    ): Promise<PullRequest[]> {
+      // GitLab has separate "closed" and "merged" states; both count as closed here
+      const state = prStatus === 'open' ? 'opened' : 'all'
+      const updatedAfter = since ? `&updated_after=${encodeURIComponent(since)}` : ''
+      const mergeRequests = await fetchAllPages<GitLabMergeRequest>(
+        page =>
+          `${projectUrl(owner, repo)}/merge_requests?state=${state}&order_by=created_at&sort=desc${updatedAfter}`
+          + `&per_page=${PAGE_SIZE}&page=${page}`,
+        PAGE_SIZE,
+        headers,
+      )
+
+      return mergeRequests
+        .filter(mr => prStatus !== 'closed' || mr.state !== 'opened')
+        .map(mr => ({
+          number: mr.iid,
+          title: mr.title,
+          status: mr.state === 'opened' ? 'open' : 'closed',
+          created_at: mr.created_at,
+          updated_at: mr.updated_at,
+          merged_at: mr.merged_at,
+          // GitLab only sets closed_at for merge requests closed without merging
+          closed_at: mr.closed_at ?? mr.merged_at,
+          head: {
+            ref: mr.source_branch,
+            label: `${mr.author?.username ?? 'unknown'}:${mr.source_branch}`,
+          },
+          base: {
+            ref: mr.target_branch,
+          },
+          user: {
+            login: mr.author?.username || 'unknown',
+          },
+          html_url: mr.web_url,
+        }))
+    },
+  }
+}
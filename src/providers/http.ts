@@ -0,0 +1,44 @@
+/**
+ * Minimal JSON-over-HTTP helpers for the providers that don't have an SDK
+ */
+
+/**
+ * Fetches a JSON document. On failure it throws an error with the HTTP status in its message and in a status
+ * property, like Octokit's errors.
+ */
+export async function fetchJson<T>(url: string, headers: Record<string, string>): Promise<T> {
+  const response = await fetch(url, { headers: { accept: 'application/json', ...headers } })
+
+  if (!response.ok) {
+    // Keep "Not Found" in the message, callers check for it like they do for Octokit errors
+    const reason = response.status === 404 ? 'Not Found' : response.statusText
+    throw Object.assign(new Error(`HTTP ${response.status} ${reason} for ${url}`), { status: response.status })
+  }
+
+  return await response.json() as T
+}
+
+/**
+ * Fetches all pages of a paginated list endpoint. Stops at the first page with fewer
+ * items than the page size, or for which isLastPage returns true.
+ * @param pageUrl Builds the URL of a page (1-based)
+ */
+export async function fetchAllPages<T>(
+  pageUrl: (page: number) => string,
+  pageSize: number,
+  headers: Record<string, string>,
+  isLastPage: (pageItems: T[]) => boolean = () => false,
+): Promise<T[]> {
+  const items: T[] = []
+
+  for (let page = 1;; page++) {
+    const pageItems = await fetchJson<T[]>(pageUrl(page), headers)
+    items.push(...pageItems)
+
+    if (pageItems.length < pageSize || isLastPage(pageItems)) {
+      break
+    }
+  }
+
+  return items
+}
@@ -0,0 +1,83 @@
+import { pauseRequests } from './scheduler.js'
+
+// What is left of a rate limit, from the x-ratelimit-* headers of the latest response
+export interface RateLimitBudget {
+  limit: number
+  remaining: number
+  resetAt: number // Epoch ms
+}
+
+// Budgets by "<host>/<resource>", e.g. "github.com/core"; GitHub limits searches and GraphQL separately
+const budgets = new Map<string, RateLimitBudget>()
+
+// The budget shown in progress lines: the one of the latest response
+let latestKey: string | null = null
+
+/**
+ * The rate limit resource that a GitHub API request counts against
+ */
+export function rateLimitResource(url: string): string {
+  const { pathname } = new URL(url)
+  if (pathname.endsWith('/graphql')) return 'graphql'
+  if (pathname.includes('/search/')) return 'search'
+  return 'core'
+}
+
+/**
+ * Records the budget that the rate limit headers of a response report; responses without them are ignored
+ * @param key Host and resource, e.g. "github.com/core"
+ */
+export function recordRateLimit(key: string, headers: Record<string, string | number | undefined>): void {
+  const limit = Number(headers['x-ratelimit-limit'])
+  const remaining = Number(headers['x-ratelimit-remaining'])
+  const reset = Number(headers['x-ratelimit-reset']) // Epoch seconds
+  if ([limit, remaining, reset].some(Number.isNaN)) return
+
+  budgets.set(key, { limit, remaining, resetAt: reset * 1000 })
+  latestKey = key
+}
+
+/**
+ * The last recorded budget of a host and resource
+ */
+export function getBudget(key: string): RateLimitBudget | undefined {
+  return budgets.get(key)
+}
+
+/**
+ * Forgets all budgets, for tests
+ */
+export function resetBudgets(): void {
+  budgets.clear()
+  latestKey = null
+}
+
+/**
+ * Milliseconds until a rate limit has surely reset: a second more than until its reset time, which GitHub
+ * rounds down to seconds
+ * @param resetAt Epoch ms
+ */
+export function waitUntilReset(resetAt: number): number {
+  return resetAt - Date.now() + 1000
+}
+
+/**
+ * Pauses all requests until the rate limit resets when its budget is used up.
+ * The caller then waits with waitForRequests.
+ */
+export function pauseIfBudgetUsedUp(key: string): void {
+  const budget = budgets.get(key)
+  if (!budget || budget.remaining > 0) return
+
+  if (budget.resetAt > Date.now()) {
+    pauseRequests(waitUntilReset(budget.resetAt), `Rate limit of ${key} used up`)
+  }
+}
+
+/**
+ * The budget of the latest response for progress lines, e.g. " [rate limit: 4210/5000]"; empty if there's none
+ */
+export function formatBudget(): string {
+  const budget = latestKey ? budgets.get(latestKey) : undefined
+  return budget ? ` [rate limit: ${budget.remaining}/${budget.limit}]` : ''
+}
@@ -0,0 +1,120 @@
+import type { Octokit } from '@octokit/rest'
+import { createHash } from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+
+export type RecorderMode = 'record' | 'replay'
+
+// A recorded request/response pair, stored as one JSON file per request
+export interface Fixture {
+  request: {
+    method: string
+    url: string
+    body?: unknown
+  }
+  response: {
+    status: number
+    url: string
+    headers: Record<string, string | number | undefined>
+    data: unknown
+  }
+}
+
+let recorder: { mode: RecorderMode; dir: string } | null = null
+
+/**
+ * Records all GitHub API traffic to, or replays it from, a fixture directory
+ */
+export function configureRecorder(mode: RecorderMode, dir: string): void {
+  recorder = { mode, dir }
+}
+
+/**
+ * Turns off recording and replaying
+ */
+export function resetRecorder(): void {
+  recorder = null
+}
+
+/**
+ * Whether requests are served from fixtures instead of the network
+ */
+export function isReplaying(): boolean {
+  return recorder?.mode === 'replay'
+}
+
+/**
+ * Identifies a request: its method, absolute URL (including the query) and body
+ */
+export function getFixtureKey(method: string, url: string, body?: unknown): string {
+  return body === undefined ? `${method} ${url}` : `${method} ${url} ${JSON.stringify(body)}`
+}
+
+/**
+ * Path of the fixture file for a request key
+ */
+export function getFixturePath(dir: string, key: string): string {
+  return path.join(dir, `${createHash('sha1').update(key).digest('hex').slice(0, 16)}.json`)
+}
+
+async function readFixture(key: string, dir: string): Promise<Fixture> {
+  try {
+    return JSON.parse(await fs.readFile(getFixturePath(dir, key), 'utf-8')) as Fixture
+  } catch (error) {
+    throw new Error(`No recorded response for "${key}" in ${dir}`)
+  }
+}
+
+async function writeFixture(key: string, dir: string, fixture: Fixture): Promise<void> {
+  await fs.mkdir(dir, { recursive: true })
+  await fs.writeFile(getFixturePath(dir, key), JSON.stringify(fixture, null, 2) + '\n')
+}
+
+/**
+ * Hooks the recorder into an Octokit instance, if recording or replaying is configured.
+ * This covers REST requests, pagination and GraphQL queries.
+ */
+export function attachRecorder(octokit: Octokit): void {
+  if (!recorder) return
+  const { mode, dir } = recorder
+
+  octokit.hook.wrap('request', async (request, options) => {
+    const { method, url, body } = octokit.request.endpoint.parse(options)
+    const key = getFixtureKey(method, url, body)
+
+    if (mode === 'replay') {
+      const { response } = await readFixture(key, dir)
+      // Octokit throws for 304 Not Modified as well as for errors
+      if (response.status === 304 || response.status >= 400) {
+        const message = (response.data as { message?: string } | undefined)?.message ?? `HTTP ${response.status}`
+        // Shaped like Octokit's RequestError, callers check the message and status
+        throw Object.assign(new Error(message), { status: response.status, response })
+      }
+      return response as Awaited<ReturnType<typeof request>>
+    }
+
+    try {
+      const response = await request(options)
+      await writeFixture(key, dir, {
+        request: { method, url, body },
+        response: { status: response.status, url: response.url, headers: response.headers, data: response.data },
+      })
+      return response
+    } catch (error) {
+      // Record error and 304 responses (e.g. the 404 that tells users from organizations) too
+      const failed = error as { status?: number; response?: Fixture['response'] }
+      if (failed.status && failed.response) {
+        await writeFixture(key, dir, {
+          request: { method, url, body },
+          response: {
+            status: failed.status,
+            url: failed.response.url,
+            headers: failed.response.headers,
+            data: failed.response.data,
+          },
+        })
+      }
+      throw error
+    }
+  })
+}
@@ -0,0 +1,219 @@
+import type { CliOptions } from './cli.js'
+import type { ConfidenceSignals } from './patterns.js'
+
+export interface BranchMatch {
+  repository: string
+  branch: string
+  tool: string // Workflow tool that produced the branch
+  username?: string // Extracted username from branch pattern
+  signals: ConfidenceSignals
+  confidence: number
+}
+
+export interface PullRequestMatch {
+  repository: string
+  prNumber: number
+  title: string
+  status: 'open' | 'closed'
+  tool: string // Workflow tool that produced the head branch
+  username: string
+  branchName: string
+  headOwner: string // Owner key of the repository the head branch is in, see getOwnerKey
+  createdAt: string
+  url: string
+  signals: ConfidenceSignals
+  confidence: number
+}
+
+export interface OrgMember {
+  org: string // Organization as given on the command line
+  login: string
+  ownerKey: string // Owner key of the member's personal repositories, see getOwnerKey
+}
+
+/**
+ * Groups items by a key, preserving the order in which keys first appear
+ */
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  items.forEach(item => {
+    const groupKey = key(item)
+    if (!groups.has(groupKey)) {
+      groups.set(groupKey, [])
+    }
+    groups.get(groupKey)!.push(item)
+  })
+  return groups
+}
+
+/**
+ * Formats "<tool>: <count>" pairs, most frequent tool first
+ */
+function formatToolCounts<T extends { tool: string }>(matches: T[]): string {
+  return Array.from(groupBy(matches, match => match.tool).entries())
+    .sort(([, a], [, b]) => b.length - a.length)
+    .map(([tool, toolMatches]) => `${tool}: ${toolMatches.length}`)
+    .join(', ')
+}
+
+/**
+ * Formats a tool with someone's pull request and branch counts, e.g. "jj (2 PRs, 1 branch)"
+ */
+function formatToolUsage(tool: string, prCount: number, branchCount: number): string {
+  const counts = [
+    prCount > 0 ? `${prCount} PR${prCount > 1 ? 's' : ''}` : '',
+    branchCount > 0 ? `${branchCount} branch${branchCount > 1 ? 'es' : ''}` : '',
+  ].filter(Boolean)
+  return `${tool} (${counts.join(', ')})`
+}
+
+/**
+ * Prints matches of one repository grouped by tool, then by username
+ */
+function printRepositoryBreakdown<T extends { tool: string }>(
+  matches: T[],
+  getUsername: (match: T) => string,
+  formatCount: (count: number) => string,
+): void {
+  const toolMap = groupBy(matches, match => match.tool)
+  Array.from(toolMap.entries())
+    .sort(([, a], [, b]) => b.length - a.length)
+    .forEach(([tool, toolMatches]) => {
+      console.log(`  ${tool}: ${toolMatches.length}`)
+
+      // Group matches by username
+      const userCounts = new Map<string, number>()
+      toolMatches.forEach(match => {
+        const username = getUsername(match)
+        userCounts.set(username, (userCounts.get(username) || 0) + 1)
+      })
+
+      // Display user statistics
+      const userStats = Array.from(userCounts.entries())
+        .sort(([, a], [, b]) => b - a)
+        .map(([username, count]) => `    ${username}: ${formatCount(count)}`)
+      console.log(userStats.join('\n'))
+    })
+}
+
+/**
+ * Describes how many repositories were covered, taking --max-repos into account
+ */
+function formatRepoCount(matchedRepos: number, options: CliOptions, totalRepos: number): string {
+  return options.maxRepos && totalRepos > options.maxRepos
+    ? `${matchedRepos} repositories (limited to first ${options.maxRepos} of ${totalRepos} total)`
+    : `${matchedRepos} repositories`
+}
+
+/**
+ * Prints branch matches grouped by repository, tool and username
+ */
+export function printBranchReport(matches: BranchMatch[], options: CliOptions, totalRepos: number): void {
+  const repoMap = groupBy(matches, match => match.repository)
+
+  console.log('\nRepositories with matching branches:')
+  repoMap.forEach((branches, repository) => {
+    console.log(`\n${repository}: ${branches.length} matching branches`)
+    printRepositoryBreakdown(
+      branches,
+      branch => branch.username || '<no prefix>',
+      count => `${count} branch${count > 1 ? 'es' : ''}`,
+    )
+  })
+
+  console.log(
+    `\nTotal: ${matches.length} matching branches in ${formatRepoCount(repoMap.size, options, totalRepos)}`,
+  )
+  console.log(`By tool: ${formatToolCounts(matches)}`)
+}
+
+/**
+ * Prints pull request matches grouped by repository, tool and username
+ */
+export function printPullRequestReport(matches: PullRequestMatch[], options: CliOptions, totalRepos: number): void {
+  const repoMap = groupBy(matches, match => match.repository)
+
+  console.log('\nRepositories with matching pull requests:')
+  repoMap.forEach((prs, repository) => {
+    console.log(`\n${repository}: ${prs.length} matching pull requests`)
+    printRepositoryBreakdown(
+      prs,
+      pr => pr.username,
+      count => `${count} PR${count > 1 ? 's' : ''}`,
+    )
+  })
+
+  console.log(
+    `\nTotal: ${matches.length} matching pull requests in ${formatRepoCount(repoMap.size, options, totalRepos)}`,
+  )
+  console.log(`By tool: ${formatToolCounts(matches)}`)
+}
+
+/**
+ * Prints which tools each user was seen with, across all repositories
+ */
+export function printUserToolReport(branches: BranchMatch[], pullRequests: PullRequestMatch[]): void {
+  // Branches without a username prefix can't be attributed to anyone
+  const attributed = [
+    ...branches
+      .filter(branch => branch.username)
+      .map(branch => ({ username: branch.username!, tool: branch.tool, kind: 'branch' as const })),
+    ...pullRequests.map(pr => ({ username: pr.username, tool: pr.tool, kind: 'pr' as const })),
+  ]
+  if (attributed.length === 0) return
+
+  const userMap = groupBy(attributed, entry => entry.username)
+
+  console.log('\nUsers by tool:')
+  Array.from(userMap.entries())
+    .sort(([, a], [, b]) => b.length - a.length)
+    .forEach(([username, entries]) => {
+      const tools = Array.from(groupBy(entries, entry => entry.tool).entries())
+        .map(([tool, toolEntries]) => {
+          const prCount = toolEntries.filter(entry => entry.kind === 'pr').length
+          return formatToolUsage(tool, prCount, toolEntries.length - prCount)
+        })
+      console.log(`  ${username}: ${tools.join(', ')}`)
+    })
+}
+
+/**
+ * Prints matches grouped by organization member, and the share of members that use each tool.
+ * A match belongs to a member when it is in one of their personal repositories or carries their username.
+ */
+export function printMemberReport(
+  members: OrgMember[],
+  branches: BranchMatch[],
+  pullRequests: PullRequestMatch[],
+): void {
+  groupBy(members, member => member.org).forEach((orgMembers, org) => {
+    console.log(`\nMembers of ${org}:`)
+
+    const toolMembers = new Map<string, number>()
+    let adopters = 0
+
+    orgMembers.forEach(member => {
+      const belongsToMember = (match: { repository: string; username?: string }) =>
+        match.repository.startsWith(`${member.ownerKey}/`)
+        || match.username?.toLowerCase() === member.login.toLowerCase()
+      const memberBranches = branches.filter(belongsToMember)
+      const memberPRs = pullRequests.filter(belongsToMember)
+      if (memberBranches.length === 0 && memberPRs.length === 0) return
+
+      adopters++
+      const tools = Array.from(groupBy([...memberBranches, ...memberPRs], match => match.tool).entries())
+        .map(([tool, toolMatches]) => {
+          toolMembers.set(tool, (toolMembers.get(tool) || 0) + 1)
+          const prCount = toolMatches.filter(match => 'prNumber' in match).length
+          return formatToolUsage(tool, prCount, toolMatches.length - prCount)
+        })
+      console.log(`  ${member.login}: ${tools.join(', ')}`)
+    })
+
+    const percentage = orgMembers.length > 0 ? (adopters / orgMembers.length * 100).toFixed(1) : '0.0'
+    console.log(`\nAdoption: ${adopters} of ${orgMembers.length} public members (${percentage}%)`)
+    Array.from(toolMembers.entries())
+      .sort(([, a], [, b]) => b - a)
+      .forEach(([tool, count]) => console.log(`  ${tool}: ${count} member${count > 1 ? 's' : ''}`))
+  })
+}
@@ -0,0 +1,88 @@
+/**
+ * Runs API work for several repositories at once, and pauses all of it together when a forge asks to slow down
+ */
+
+// Until when requests are paused (epoch ms); 0 when they aren't
+let resumeAt = 0
+
+// Updates the countdown of the current pause every second
+let countdown: NodeJS.Timeout | null = null
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Formats a wait, e.g. "4:05" for four minutes and five seconds
+ */
+function formatWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+/**
+ * Pauses all requests, in every worker, for the given time, with a countdown. Overlapping pauses end with
+ * the last one.
+ * @param reason Shown with the countdown, e.g. "Hit a secondary rate limit"
+ */
+export function pauseRequests(ms: number, reason: string): void {
+  resumeAt = Math.max(resumeAt, Date.now() + ms)
+  if (countdown) return
+
+  const update = () => {
+    const left = resumeAt - Date.now()
+    if (left > 0) {
+      process.stdout.write(`\r${reason}, resuming in ${formatWait(left)}...`)
+    } else {
+      stopCountdown()
+    }
+  }
+  countdown = setInterval(update, 1000)
+  countdown.unref()
+  update()
+}
+
+/**
+ * Ends the countdown line of a pause
+ */
+function stopCountdown(): void {
+  if (!countdown) return
+  clearInterval(countdown)
+  countdown = null
+  process.stdout.write('\n')
+}
+
+/**
+ * Waits until requests aren't paused anymore
+ */
+export async function waitForRequests(): Promise<void> {
+  if (Date.now() >= resumeAt) return
+
+  // A pause may be extended while waiting for it
+  while (Date.now() < resumeAt) {
+    await sleep(resumeAt - Date.now())
+  }
+  stopCountdown()
+}
+
+/**
+ * Calls work for every item, with at most concurrency calls in flight at a time.
+ * Items are started in order, and the results are in the order of the items, however the calls finish.
+ */
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  work: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      await waitForRequests()
+      results[index] = await work(items[index])
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker))
+  return results
+}
@@ -0,0 +1,133 @@
+import path from 'path'
+import type { CacheData } from './cache.js'
+import { createJsonStorage } from './storage/json.js'
+import { createSqliteStorage, isSqliteAvailable } from './storage/sqlite.js'
+
+export type StorageKind = 'sqlite' | 'json'
+
+export const STORAGE_KINDS: StorageKind[] = ['sqlite', 'json']
+
+/**
+ * Keys of the cache entries that changed since the last save, by CacheData section.
+ * A changed repository key covers the repository's own fields; its branches and pull requests are tracked separately.
+ */
+export interface CacheChanges {
+  repositories: Set<string>
+  branches: Set<string>
+  pullRequests: Set<string>
+  ownerRepos: Set<string>
+  orgMembers: Set<string>
+  forks: Set<string>
+  globalSearch: Set<string>
+  topRepos: boolean
+  runs: boolean
+}
+
+/**
+ * Where the cache is persisted
+ *
+ * The whole cache is loaded into memory at startup. Saves get the entries that changed since the previous save,
+ * so backends that can update single rows don't have to rewrite everything.
+ */
+export interface CacheStorage {
+  kind: StorageKind
+  path: string
+  // The cache as stored, possibly by an older version (see migrateCache); null if nothing has been stored yet
+  load(): Promise<unknown>
+  // A copy of the cache from before the last save, for when the stored one can't be used; null if there's none
+  loadBackup(): Promise<{ path: string; cache: unknown } | null>
+  save(cache: CacheData, changes: CacheChanges): Promise<void>
+  clear(): Promise<void>
+  // Moves the stored cache aside, for caches that can't be used, and returns where it went
+  quarantine(): Promise<string>
+}
+
+/**
+ * No changes
+ */
+export function emptyChanges(): CacheChanges {
+  return {
+    repositories: new Set(),
+    branches: new Set(),
+    pullRequests: new Set(),
+    ownerRepos: new Set(),
+    orgMembers: new Set(),
+    forks: new Set(),
+    globalSearch: new Set(),
+    topRepos: false,
+    runs: false,
+  }
+}
+
+/**
+ * Every entry of a cache, for writing it to a new storage
+ */
+export function allChanges(cache: CacheData): CacheChanges {
+  const repoKeys = Object.keys(cache.repositories)
+  return {
+    repositories: new Set(repoKeys),
+    branches: new Set(repoKeys),
+    pullRequests: new Set(repoKeys),
+    ownerRepos: new Set(Object.keys(cache.ownerRepos ?? {})),
+    orgMembers: new Set(Object.keys(cache.orgMembers ?? {})),
+    forks: new Set(Object.keys(cache.forks ?? {})),
+    globalSearch: new Set(Object.keys(cache.globalSearch ?? {})),
+    topRepos: !!cache.topRepos,
+    runs: !!cache.runs,
+  }
+}
+
+const KEYED_SECTIONS = [
+  'repositories',
+  'branches',
+  'pullRequests',
+  'ownerRepos',
+  'orgMembers',
+  'forks',
+  'globalSearch',
+] as const
+
+/**
+ * Number of changed entries
+ */
+export function countChanges(changes: CacheChanges): number {
+  return KEYED_SECTIONS.reduce((count, section) => count + changes[section].size, 0)
+    + Number(changes.topRepos) + Number(changes.runs)
+}
+
+/**
+ * Adds the changes of from to into
+ */
+export function mergeChanges(into: CacheChanges, from: CacheChanges): void {
+  for (const section of KEYED_SECTIONS) {
+    from[section].forEach(key => into[section].add(key))
+  }
+  into.topRepos ||= from.topRepos
+  into.runs ||= from.runs
+}
+
+/**
+ * Opens the cache storage in a directory. SQLite needs node:sqlite (Node.js 22.5 or later);
+ * without it, the JSON file is used instead.
+ * @param name File name without extension: <name>.db for SQLite, <name>.json for JSON
+ */
+export async function openStorage(kind: StorageKind, dir: string, name: string): Promise<CacheStorage> {
+  const json = createJsonStorage(path.join(dir, `${name}.json`))
+  if (kind === 'json') return json
+
+  if (!(await isSqliteAvailable())) {
+    console.warn(`SQLite storage needs Node.js 22.5 or later (node:sqlite), using ${json.path} instead.`)
+    return json
+  }
+
+  // An empty database starts from the JSON cache file, if there is one
+  return await createSqliteStorage(path.join(dir, `${name}.db`), json)
+}
+
+/**
+ * Where to move a cache file that can't be used: next to it, with the time in its name
+ */
+export function quarantinePath(filePath: string): string {
+  const { dir, name, ext } = path.parse(filePath)
+  return path.join(dir, `${name}.unusable-${new Date().toISOString().replace(/[:.]/g, '-')}${ext}`)
+}
@@ -0,0 +1,94 @@
+import fs from 'fs/promises'
+import path from 'path'
+import type { CacheData } from '../cache.js'
+import { type CacheStorage, quarantinePath } from '../storage.js'
+
+/**
+ * Reads and parses a JSON file; null if it doesn't exist
+ */
+async function readJson(filePath: string): Promise<unknown> {
+  let data: string
+  try {
+    data = await fs.readFile(filePath, 'utf-8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+  // Invalid JSON, e.g. a truncated file, is an error rather than an empty cache
+  return JSON.parse(data)
+}
+
+/**
+ * Removes a file, if it exists
+ */
+async function removeFile(filePath: string): Promise<void> {
+  try {
+    await fs.unlink(filePath)
+  } catch (error) {
+    // If file doesn't exist, that's fine
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+  }
+}
+
+/**
+ * Replaces a file by writing a temporary file next to it and renaming that over it,
+ * so that a crash leaves either the old or the new file rather than a truncated one
+ */
+async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`
+  const file = await fs.open(tempPath, 'w')
+  try {
+    await file.writeFile(data, 'utf-8')
+    await file.sync()
+  } finally {
+    await file.close()
+  }
+  await fs.rename(tempPath, filePath)
+}
+
+/**
+ * The whole cache in one JSON file, rewritten on every save.
+ * Also the format for importing and exporting caches.
+ *
+ * Each save keeps the file it replaces as <name>.bak.json, the backup that is loaded when the cache can't be used.
+ */
+export function createJsonStorage(filePath: string): CacheStorage {
+  const { dir, name, ext } = path.parse(filePath)
+  const backupPath = path.join(dir, `${name}.bak${ext}`)
+
+  return {
+    kind: 'json',
+    path: filePath,
+
+    async load(): Promise<unknown> {
+      return await readJson(filePath)
+    },
+
+    async loadBackup(): Promise<{ path: string; cache: unknown } | null> {
+      const cache = await readJson(backupPath)
+      return cache === null ? null : { path: backupPath, cache }
+    },
+
+    async save(cache: CacheData): Promise<void> {
+      await fs.mkdir(dir, { recursive: true })
+      try {
+        await fs.copyFile(filePath, backupPath)
+      } catch (error) {
+        // Nothing to back up on the first save
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      }
+      await writeFileAtomic(filePath, JSON.stringify(cache, null, 2))
+    },
+
+    async clear(): Promise<void> {
+      await removeFile(filePath)
+      await removeFile(backupPath)
+    },
+
+    async quarantine(): Promise<string> {
+      const target = quarantinePath(filePath)
+      await fs.rename(filePath, target)
+      return target
+    },
+  }
+}
@@ -0,0 +1,444 @@
+import fs from 'fs/promises'
+import path from 'path'
+import type { CacheData } from '../cache.js'
+import { repoKeyOf } from '../forge.js'
+import type { Branch, PullRequest, Repository } from '../github.js'
+import { migrateCache } from '../migrations.js'
+import { allChanges, type CacheChanges, type CacheStorage, quarantinePath } from '../storage.js'
+
+// The parts of node:sqlite that we use; @types/node 20 doesn't have its types
+type SqliteValue = string | number | null
+
+interface SqliteStatement {
+  run(...params: SqliteValue[]): unknown
+  all(...params: SqliteValue[]): Record<string, SqliteValue>[]
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void
+  prepare(sql: string): SqliteStatement
+  close(): void
+}
+
+type SqliteModule = { DatabaseSync: new(path: string) => SqliteDatabase }
+
+// Branches and pull requests are stored as a row each, so that they can be queried with SQL.
+// A repository has cached branches (pull requests) when its branches_timestamp (pull_requests_timestamp) is set.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS repos (
+    key TEXT PRIMARY KEY,
+    host TEXT,
+    owner TEXT NOT NULL,
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+    stars INTEGER,
+    parent TEXT,
+    owner_type TEXT,
+    owner_type_timestamp INTEGER,
+    branches_timestamp INTEGER,
+    branches_pages TEXT,
+    branches_ref_queries TEXT,
+    pull_requests_timestamp INTEGER,
+    pull_requests_complete INTEGER,
+    pull_requests_cursor TEXT,
+    pull_requests_pages TEXT
+  );
+  CREATE TABLE IF NOT EXISTS branches (
+    repo_key TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    sha TEXT NOT NULL,
+    url TEXT NOT NULL,
+    PRIMARY KEY (repo_key, position)
+  );
+  CREATE TABLE IF NOT EXISTS pull_requests (
+    repo_key TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    number INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    status TEXT NOT NULL,
+    author TEXT NOT NULL,
+    head_ref TEXT NOT NULL,
+    head_label TEXT NOT NULL,
+    base_ref TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT,
+    merged_at TEXT,
+    closed_at TEXT,
+    url TEXT NOT NULL,
+    PRIMARY KEY (repo_key, position)
+  );
+  CREATE TABLE IF NOT EXISTS owners (
+    key TEXT PRIMARY KEY,
+    repos TEXT NOT NULL, -- JSON array of repo keys
+    timestamp INTEGER NOT NULL,
+    pages TEXT
+  );
+  CREATE TABLE IF NOT EXISTS entries ( -- topRepos, orgMembers, forks and globalSearch
+    section TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL, -- JSON
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (section, key)
+  );
+  CREATE TABLE IF NOT EXISTS runs (
+    started_at INTEGER PRIMARY KEY,
+    finished_at INTEGER,
+    options TEXT NOT NULL -- JSON
+  );
+`
+
+// Columns added to tables after their first release, which databases created before are migrated to
+const ADDED_COLUMNS = [
+  { table: 'repos', column: 'branches_ref_queries', type: 'TEXT' },
+]
+
+const TABLES = ['meta', 'repos', 'branches', 'pull_requests', 'owners', 'entries', 'runs']
+
+// Meta row recording that the JSON cache was imported, which clearing keeps so that it isn't imported again
+const IMPORTED_KEY = 'importedFrom'
+
+const ENTRY_SECTIONS = ['orgMembers', 'forks', 'globalSearch'] as const
+
+let sqliteModule: Promise<SqliteModule | null> | null = null
+
+function loadSqlite(): Promise<SqliteModule | null> {
+  // A computed specifier keeps TypeScript from looking for the module's types
+  sqliteModule ??= import('node:sqlite' as string).then(module => module as SqliteModule, () => null)
+  return sqliteModule
+}
+
+/**
+ * Whether this Node.js has node:sqlite
+ */
+export async function isSqliteAvailable(): Promise<boolean> {
+  return (await loadSqlite()) !== null
+}
+
+const toJson = (value: unknown): string | null => value === undefined ? null : JSON.stringify(value)
+
+const fromJson = <T>(value: SqliteValue): T | undefined => value === null ? undefined : JSON.parse(value as string) as T
+
+const orUndefined = <T extends SqliteValue>(value: SqliteValue): T | undefined =>
+  value === null ? undefined : value as T
+
+const prepareStatements = (db: SqliteDatabase) => ({
+  upsertMeta: db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)'),
+  upsertRepo: db.prepare(
+    `INSERT OR REPLACE INTO repos (key, host, owner, name, url, stars, parent, owner_type, owner_type_timestamp,
+      branches_timestamp, branches_pages, branches_ref_queries, pull_requests_timestamp, pull_requests_complete,
+      pull_requests_cursor, pull_requests_pages) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  ),
+  deleteRepo: db.prepare('DELETE FROM repos WHERE key = ?'),
+  deleteBranches: db.prepare('DELETE FROM branches WHERE repo_key = ?'),
+  insertBranch: db.prepare('INSERT INTO branches (repo_key, position, name, sha, url) VALUES (?, ?, ?, ?, ?)'),
+  deletePullRequests: db.prepare('DELETE FROM pull_requests WHERE repo_key = ?'),
+  insertPullRequest: db.prepare(
+    `INSERT INTO pull_requests (repo_key, position, number, title, status, author, head_ref, head_label, base_ref,
+      created_at, updated_at, merged_at, closed_at, url) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  ),
+  upsertOwner: db.prepare('INSERT OR REPLACE INTO owners (key, repos, timestamp, pages) VALUES (?, ?, ?, ?)'),
+  deleteOwner: db.prepare('DELETE FROM owners WHERE key = ?'),
+  upsertEntry: db.prepare('INSERT OR REPLACE INTO entries (section, key, value, timestamp) VALUES (?, ?, ?, ?)'),
+  deleteEntry: db.prepare('DELETE FROM entries WHERE section = ? AND key = ?'),
+  deleteMeta: db.prepare('DELETE FROM meta WHERE key = ?'),
+  upsertRun: db.prepare('INSERT OR REPLACE INTO runs (started_at, finished_at, options) VALUES (?, ?, ?)'),
+})
+
+/**
+ * Cache in a SQLite database with a row per repository, branch, pull request and owner.
+ * Saves only write the rows of changed entries, in one transaction.
+ * @param importFrom Storage whose cache is copied into the database while it's empty, once
+ */
+export async function createSqliteStorage(filePath: string, importFrom?: CacheStorage): Promise<CacheStorage> {
+  const sqlite = await loadSqlite()
+  if (!sqlite) {
+    throw new Error('SQLite storage needs Node.js 22.5 or later (node:sqlite)')
+  }
+
+  let db: SqliteDatabase
+  let statements: ReturnType<typeof prepareStatements>
+
+  const open = (): void => {
+    db = new sqlite.DatabaseSync(filePath)
+    db.exec(SCHEMA)
+    for (const { table, column, type } of ADDED_COLUMNS) {
+      const columns = db.prepare(`PRAGMA table_info(${table})`).all()
+      if (!columns.some(row => row.name === column)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`)
+      }
+    }
+    statements = prepareStatements(db)
+  }
+
+  const moveAside = async (): Promise<string> => {
+    db?.close()
+    const target = quarantinePath(filePath)
+    await fs.rename(filePath, target)
+    open()
+    return target
+  }
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  try {
+    open()
+  } catch (error) {
+    // Not a SQLite database, or a damaged one
+    const reason = error instanceof Error ? error.message : String(error)
+    console.warn(`Cache in ${filePath} can't be opened: ${reason}. Moved it to ${await moveAside()}.`)
+  }
+
+  const writeRepository = (key: string, entry: CacheData['repositories'][string] | undefined): void => {
+    if (!entry) {
+      statements.deleteRepo.run(key)
+      return
+    }
+
+    const { data } = entry
+    // Branches and pull requests cached without a timestamp (by old versions) are kept, as expired
+    const branchesTimestamp = entry.branches ? entry.branchesTimestamp ?? 0 : null
+    const pullRequestsTimestamp = entry.pullRequests ? entry.pullRequestsTimestamp ?? 0 : null
+    statements.upsertRepo.run(
+      key,
+      data.host ?? null,
+      data.owner.login,
+      data.name,
+      data.url,
+      data.stars ?? null,
+      data.parent ?? null,
+      entry.ownerType ?? null,
+      entry.ownerTypeTimestamp ?? null,
+      branchesTimestamp,
+      toJson(entry.branchesPages),
+      toJson(entry.branchesRefQueries),
+      pullRequestsTimestamp,
+      entry.pullRequestsComplete ? 1 : 0,
+      entry.pullRequestsCursor ?? null,
+      toJson(entry.pullRequestsPages),
+    )
+  }
+
+  const writeBranches = (key: string, branches: Branch[] = []): void => {
+    statements.deleteBranches.run(key)
+    branches.forEach((branch, position) => {
+      statements.insertBranch.run(key, position, branch.name, branch.commit.sha, branch.commit.url)
+    })
+  }
+
+  const writePullRequests = (key: string, pullRequests: PullRequest[] = []): void => {
+    statements.deletePullRequests.run(key)
+    pullRequests.forEach((pr, position) => {
+      statements.insertPullRequest.run(
+        key,
+        position,
+        pr.number,
+        pr.title,
+        pr.status,
+        pr.user.login,
+        pr.head.ref,
+        pr.head.label,
+        pr.base.ref,
+        pr.created_at,
+        pr.updated_at ?? null,
+        pr.merged_at ?? null,
+        pr.closed_at ?? null,
+        pr.html_url,
+      )
+    })
+  }
+
+  // Reads the cache in the layout of its schema version; version 1 has cliOptions, later versions have runs
+  const readCache = (): unknown => {
+    const meta = new Map(db.prepare('SELECT key, value FROM meta').all().map(row => [row.key, row.value as string]))
+    if (!meta.has('timestamp')) return null
+
+    const cache: CacheData & { cliOptions?: unknown } = {
+      schemaVersion: meta.has('schemaVersion') ? Number(meta.get('schemaVersion')) : 1,
+      timestamp: Number(meta.get('timestamp')),
+      repositories: {},
+    }
+    if (meta.has('cliOptions')) {
+      cache.cliOptions = JSON.parse(meta.get('cliOptions')!)
+    } else {
+      cache.runs = db.prepare('SELECT * FROM runs ORDER BY started_at').all().map(row => ({
+        startedAt: row.started_at as number,
+        finishedAt: orUndefined(row.finished_at),
+        options: JSON.parse(row.options as string),
+      }))
+    }
+
+    for (const row of db.prepare('SELECT * FROM repos').all()) {
+      const data: Repository = {
+        name: row.name as string,
+        owner: { login: row.owner as string },
+        url: row.url as string,
+      }
+      if (row.stars !== null) data.stars = row.stars as number
+      if (row.host !== null) data.host = row.host as string
+      if (row.parent !== null) data.parent = row.parent as string
+
+      cache.repositories[row.key as string] = {
+        ownerType: orUndefined(row.owner_type),
+        ownerTypeTimestamp: orUndefined(row.owner_type_timestamp),
+        data,
+        branches: row.branches_timestamp === null ? undefined : [],
+        branchesTimestamp: orUndefined(row.branches_timestamp),
+        branchesPages: fromJson(row.branches_pages),
+        branchesRefQueries: fromJson(row.branches_ref_queries),
+        pullRequests: row.pull_requests_timestamp === null ? undefined : [],
+        pullRequestsTimestamp: orUndefined(row.pull_requests_timestamp),
+        pullRequestsComplete: row.pull_requests_complete === 1 || undefined,
+        pullRequestsCursor: orUndefined(row.pull_requests_cursor),
+        pullRequestsPages: fromJson(row.pull_requests_pages),
+      }
+    }
+
+    for (const row of db.prepare('SELECT * FROM branches ORDER BY repo_key, position').all()) {
+      cache.repositories[row.repo_key as string]?.branches?.push({
+        name: row.name as string,
+        commit: { sha: row.sha as string, url: row.url as string },
+      })
+    }
+
+    for (const row of db.prepare('SELECT * FROM pull_requests ORDER BY repo_key, position').all()) {
+      cache.repositories[row.repo_key as string]?.pullRequests?.push({
+        number: row.number as number,
+        title: row.title as string,
+        status: row.status as PullRequest['status'],
+        created_at: row.created_at as string,
+        updated_at: orUndefined(row.updated_at),
+        merged_at: row.merged_at as string | null,
+        closed_at: row.closed_at as string | null,
+        head: { ref: row.head_ref as string, label: row.head_label as string },
+        base: { ref: row.base_ref as string },
+        user: { login: row.author as string },
+        html_url: row.url as string,
+      })
+    }
+
+    for (const row of db.prepare('SELECT * FROM owners').all()) {
+      const repoKeys = JSON.parse(row.repos as string) as string[]
+      cache.ownerRepos ??= {}
+      cache.ownerRepos[row.key as string] = {
+        data: repoKeys.flatMap(key => cache.repositories[key]?.data ?? []),
+        timestamp: row.timestamp as number,
+        pages: fromJson(row.pages),
+      }
+    }
+
+    for (const row of db.prepare('SELECT * FROM entries').all()) {
+      const value = JSON.parse(row.value as string)
+      if (row.section === 'topRepos') {
+        cache.topRepos = value
+      } else {
+        const section = row.section as typeof ENTRY_SECTIONS[number]
+        cache[section] = { ...cache[section], [row.key as string]: value }
+      }
+    }
+
+    return cache
+  }
+
+  const writeChanges = (cache: CacheData, changes: CacheChanges): void => {
+    statements.upsertMeta.run('schemaVersion', String(cache.schemaVersion))
+    statements.upsertMeta.run('timestamp', String(cache.timestamp))
+    statements.deleteMeta.run('cliOptions') // Replaced by runs in schema version 2
+
+    for (const key of changes.repositories) {
+      writeRepository(key, cache.repositories[key])
+    }
+    for (const key of changes.branches) {
+      writeBranches(key, cache.repositories[key]?.branches)
+    }
+    for (const key of changes.pullRequests) {
+      writePullRequests(key, cache.repositories[key]?.pullRequests)
+    }
+
+    for (const key of changes.ownerRepos) {
+      const owner = cache.ownerRepos?.[key]
+      if (owner) {
+        // The repositories themselves are in the repos table
+        const repoKeys = owner.data.map(repoKeyOf)
+        statements.upsertOwner.run(key, JSON.stringify(repoKeys), owner.timestamp, toJson(owner.pages))
+      } else {
+        statements.deleteOwner.run(key)
+      }
+    }
+
+    for (const section of ENTRY_SECTIONS) {
+      for (const key of changes[section]) {
+        const entry = cache[section]?.[key]
+        if (entry) {
+          statements.upsertEntry.run(section, key, JSON.stringify(entry), entry.timestamp)
+        } else {
+          statements.deleteEntry.run(section, key)
+        }
+      }
+    }
+
+    if (changes.topRepos) {
+      if (cache.topRepos) {
+        statements.upsertEntry.run('topRepos', '', JSON.stringify(cache.topRepos), cache.topRepos.timestamp)
+      } else {
+        statements.deleteEntry.run('topRepos', '')
+      }
+    }
+
+    if (changes.runs) {
+      for (const run of cache.runs ?? []) {
+        statements.upsertRun.run(run.startedAt, run.finishedAt ?? null, JSON.stringify(run.options))
+      }
+    }
+  }
+
+  const storage: CacheStorage = {
+    kind: 'sqlite',
+    path: filePath,
+
+    async load(): Promise<unknown> {
+      const cache = readCache()
+      if (cache !== null || !importFrom) return cache
+      if (db.prepare('SELECT value FROM meta WHERE key = ?').all(IMPORTED_KEY).length > 0) return null
+
+      const stored = await importFrom.load()
+      if (stored === null) return null
+
+      const imported = migrateCache(stored)
+      await storage.save(imported, allChanges(imported))
+      statements.upsertMeta.run(IMPORTED_KEY, importFrom.path)
+      console.log(`Imported ${Object.keys(imported.repositories).length} cached repositories from ${importFrom.path}.`)
+      return imported
+    },
+
+    async loadBackup(): Promise<{ path: string; cache: unknown } | null> {
+      // Saves are transactions, so an interrupted one leaves the previous state rather than a damaged database
+      return null
+    },
+
+    async save(cache: CacheData, changes: CacheChanges): Promise<void> {
+      db.exec('BEGIN')
+      try {
+        writeChanges(cache, changes)
+        db.exec('COMMIT')
+      } catch (error) {
+        db.exec('ROLLBACK')
+        throw error
+      }
+    },
+
+    async clear(): Promise<void> {
+      db.exec(TABLES.filter(table => table !== 'meta').map(table => `DELETE FROM ${table};`).join('\n'))
+      db.prepare('DELETE FROM meta WHERE key != ?').run(IMPORTED_KEY)
+    },
+
+    async quarantine(): Promise<string> {
+      return await moveAside()
+    },
+  }
+
+  return storage
+}
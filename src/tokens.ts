@@ -0,0 +1,116 @@
+import fs from 'fs/promises'
+import { getBudget, type RateLimitBudget } from './ratelimit.js'
+
+// A token of the pool. Tokens are secrets, so they're only ever shown by label.
+export interface PooledToken {
+  label: string // "token 1", "token 2", ... in the order they were given
+  value: string
+  requests: number
+}
+
+// GitHub rate limit resources, see rateLimitResource
+const RESOURCES = ['core', 'search', 'graphql']
+
+let pool: PooledToken[] = []
+
+/**
+ * Reads the tokens of the pool: one per line of the token file, where empty lines and lines starting with "#"
+ * are skipped, or else the comma-separated GITHUB_TOKENS environment variable
+ * @returns The tokens, empty if neither is given
+ */
+export async function loadTokens(tokenFile?: string): Promise<string[]> {
+  const tokens = tokenFile
+    ? (await fs.readFile(tokenFile, 'utf-8')).split('\n').filter(line => !line.trim().startsWith('#'))
+    : (process.env.GITHUB_TOKENS ?? '').split(',')
+
+  // The same token twice would share one budget
+  return [...new Set(tokens.map(token => token.trim()).filter(Boolean))]
+}
+
+/**
+ * Sets the tokens that github.com requests are spread over
+ */
+export function configureTokenPool(tokens: string[]): void {
+  pool = tokens.map((value, index) => ({ label: `token ${index + 1}`, value, requests: 0 }))
+}
+
+/**
+ * Whether github.com requests use the token pool rather than a single token
+ */
+export function hasTokenPool(): boolean {
+  return pool.length > 0
+}
+
+/**
+ * Number of tokens in the pool, 0 without one
+ */
+export function tokenPoolSize(): number {
+  return pool.length
+}
+
+/**
+ * The key of the rate limit budget of a token (see ratelimit.ts), e.g. "github.com/token 2/core"
+ */
+export function tokenBudgetKey(host: string, token: PooledToken, resource: string): string {
+  return `${host}/${token.label}/${resource}`
+}
+
+/**
+ * Picks the token with the most remaining budget of a resource, preferring tokens whose budget isn't known yet.
+ * Tokens whose budget is used up are skipped until their reset.
+ * @returns The token, or the time (epoch ms) at which the first used up token resets if all of them are
+ */
+export function pickToken(host: string, resource: string): PooledToken | { resetAt: number } {
+  const now = Date.now()
+  let best: { token: PooledToken; remaining: number } | null = null
+  let firstReset = Infinity
+
+  for (const token of pool) {
+    const budget = getBudget(tokenBudgetKey(host, token, resource))
+    if (budget && budget.remaining === 0 && budget.resetAt > now) {
+      firstReset = Math.min(firstReset, budget.resetAt)
+      continue
+    }
+
+    // Between tokens with the same budget, the one that made fewer requests
+    const remaining = budget && budget.resetAt > now ? budget.remaining : Infinity
+    if (!best || remaining > best.remaining || (remaining === best.remaining && token.requests < best.token.requests)) {
+      best = { token, remaining }
+    }
+  }
+
+  return best?.token ?? { resetAt: firstReset }
+}
+
+/**
+ * The budget of a resource over all tokens of the pool: their limits and what is left of them added up, until the
+ * last of them resets. Tokens whose budget isn't known yet are left out.
+ */
+export function getPoolBudget(host: string, resource: string): RateLimitBudget | undefined {
+  const budgets = pool.flatMap(token => getBudget(tokenBudgetKey(host, token, resource)) ?? [])
+  if (budgets.length === 0) return undefined
+
+  const now = Date.now()
+  return {
+    limit: budgets.reduce((sum, budget) => sum + budget.limit, 0),
+    // A budget whose reset has passed is full again
+    remaining: budgets.reduce((sum, budget) => sum + (budget.resetAt > now ? budget.remaining : budget.limit), 0),
+    resetAt: Math.max(...budgets.map(budget => budget.resetAt)),
+  }
+}
+
+/**
+ * Prints how many requests each token made and what is left of its rate limits
+ */
+export function printTokenUsage(host: string): void {
+  if (pool.length === 0) return
+
+  console.log('\nGitHub token usage:')
+  for (const token of pool) {
+    const budgets = RESOURCES.flatMap(resource => {
+      const budget = getBudget(tokenBudgetKey(host, token, resource))
+      return budget ? [`${resource} ${budget.remaining}/${budget.limit} left`] : []
+    })
+    console.log(`  ${token.label}: ${token.requests} requests${budgets.length > 0 ? `, ${budgets.join(', ')}` : ''}`)
+  }
+}
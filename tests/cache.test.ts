@@ -0,0 +1,262 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import {
+  addRun,
+  cacheBranches,
+  cacheOwnerRepositories,
+  cachePullRequests,
+  configureStorage,
+  countPendingChanges,
+  DEFAULT_MAX_AGE,
+  endRun,
+  initializeCache,
+  invalidateOwner,
+  invalidateRepository,
+  isCacheValid,
+  isFresh,
+  mergeCache,
+  parseDuration,
+  parseMaxAge,
+  pruneCache,
+  resolveCacheDir,
+  saveCache,
+  saveCacheIfDue,
+  setMaxAge,
+} from '../src/cache.js'
+import type { CliOptions } from '../src/cli.js'
+import { CACHE_SCHEMA_VERSION, migrateCache } from '../src/migrations.js'
+
+const HOUR = 60 * 60 * 1000
+
+describe('Cache expiry', () => {
+  afterEach(() => setMaxAge({}))
+
+  it('should expire entries older than the TTL', () => {
+    expect(isCacheValid(Date.now() - 2 * HOUR, 3)).toBe(true)
+    expect(isCacheValid(Date.now() - 4 * HOUR, 3)).toBe(false)
+    expect(isCacheValid(undefined, 3)).toBe(false)
+  })
+
+  it('should parse --max-age overrides', () => {
+    expect(parseMaxAge('branches=6h,prs=1d')).toEqual({ branches: 6, prs: 24 })
+    expect(parseMaxAge('repos=2w, owner-type=30m')).toEqual({ repos: 336, ownerType: 0.5 })
+    expect(parseMaxAge('')).toEqual({})
+    expect(() => parseMaxAge('tags=1d')).toThrow('Invalid --max-age entry')
+    expect(() => parseMaxAge('branches=6')).toThrow('Invalid --max-age entry')
+  })
+
+  it('should apply TTLs per data type', () => {
+    const sevenHoursAgo = Date.now() - 7 * HOUR
+    expect(isFresh(sevenHoursAgo, 'branches')).toBe(DEFAULT_MAX_AGE.branches > 7)
+
+    setMaxAge(parseMaxAge('branches=6h'))
+    expect(isFresh(sevenHoursAgo, 'branches')).toBe(false)
+    expect(isFresh(sevenHoursAgo, 'prs')).toBe(true)
+  })
+})
+
+describe('Cache migrations', () => {
+  const repository = { data: { name: 'jj', owner: { login: 'jj-vcs' }, url: 'https://github.com/jj-vcs/jj' } }
+
+  it('should upgrade unversioned caches and drop their cliOptions', () => {
+    const cache = migrateCache({
+      cliOptions: { owners: [], repos: [] },
+      timestamp: 1,
+      repositories: { 'jj-vcs/jj': repository },
+    })
+
+    expect(cache).toEqual({
+      schemaVersion: CACHE_SCHEMA_VERSION,
+      timestamp: 1,
+      repositories: { 'jj-vcs/jj': repository },
+      runs: [],
+    })
+  })
+
+  it('should leave current caches as they are', () => {
+    const cache = { ...initializeCache(), repositories: { 'jj-vcs/jj': repository } }
+    expect(migrateCache(structuredClone(cache))).toEqual(cache)
+  })
+
+  it('should reject caches it cannot upgrade', () => {
+    expect(() => migrateCache([])).toThrow('not an object')
+    expect(() => migrateCache({ schemaVersion: CACHE_SCHEMA_VERSION + 1, repositories: {} })).toThrow('newer version')
+    expect(() => migrateCache({ timestamp: 1 })).toThrow('no repositories')
+    expect(() => migrateCache({ repositories: { 'jj-vcs/jj': { data: { name: 'jj' } } } })).toThrow('jj-vcs/jj')
+  })
+})
+
+describe('Run history', () => {
+  it('should record the start and end of runs', () => {
+    const options = { repos: ['jj-vcs/jj'] } as CliOptions
+    let cache = addRun(initializeCache(), options)
+    expect(cache.runs).toEqual([{ startedAt: expect.any(Number), options }])
+
+    cache = endRun(cache)
+    expect(cache.runs![0].finishedAt).toBeGreaterThanOrEqual(cache.runs![0].startedAt)
+  })
+
+  it('should end a resumed run by its start time, not the latest run', () => {
+    const options = { repos: ['jj-vcs/jj'] } as CliOptions
+    let cache = addRun(initializeCache(), options, 1000)
+    cache = addRun(cache, options, 2000)
+
+    cache = endRun(cache, 1000)
+    expect(cache.runs![0].finishedAt).toBeDefined()
+    expect(cache.runs![1].finishedAt).toBeUndefined()
+  })
+})
+
+describe('Cache maintenance', () => {
+  const branch = { name: 'main', commit: { sha: 'aaa', url: 'https://example.com/aaa' } }
+  const pullRequest = {
+    number: 6012,
+    title: 'Open pull request',
+    status: 'open' as const,
+    created_at: '2025-03-01T00:00:00Z',
+    updated_at: '2025-03-02T00:00:00Z',
+    merged_at: null,
+    closed_at: null,
+    head: { ref: 'push-qvzorpwlkmxy', label: 'yuja:push-qvzorpwlkmxy' },
+    base: { ref: 'main' },
+    user: { login: 'yuja' },
+    html_url: 'https://github.com/jj-vcs/jj/pull/6012',
+  }
+
+  // An owner with two repositories, both with branches and pull requests
+  const sampleCache = () => {
+    let cache = cacheOwnerRepositories(initializeCache(), 'jj-vcs', [
+      { name: 'jj', owner: { login: 'jj-vcs' }, url: 'https://github.com/jj-vcs/jj' },
+      { name: 'jj-gui', owner: { login: 'jj-vcs' }, url: 'https://github.com/jj-vcs/jj-gui' },
+    ])
+    for (const repo of ['jj', 'jj-gui']) {
+      cache = cacheBranches(cache, 'jj-vcs', repo, [branch])
+      cache = cachePullRequests(cache, 'jj-vcs', repo, [pullRequest])
+    }
+    return cache
+  }
+
+  it('should parse durations', () => {
+    expect(parseDuration('30d')).toBe(720)
+    expect(parseDuration('1.5h')).toBe(1.5)
+    expect(parseDuration('30')).toBeUndefined()
+  })
+
+  it('should invalidate only the requested data of a repository', () => {
+    const cache = invalidateRepository(sampleCache(), 'jj-vcs/jj', ['prs'])
+
+    expect(cache.repositories['jj-vcs/jj'].pullRequests).toBeUndefined()
+    expect(cache.repositories['jj-vcs/jj'].pullRequestsTimestamp).toBeUndefined()
+    expect(cache.repositories['jj-vcs/jj'].branches).toEqual([branch])
+    expect(cache.repositories['jj-vcs/jj-gui'].pullRequests).toEqual([pullRequest])
+  })
+
+  it('should invalidate the repository list and repositories of an owner', () => {
+    const cache = invalidateOwner(sampleCache(), 'jj-vcs', ['repos', 'branches'])
+
+    expect(cache.ownerRepos?.['jj-vcs']).toBeUndefined()
+    expect(Object.keys(cache.repositories)).toEqual(['jj-vcs/jj', 'jj-vcs/jj-gui'])
+    expect(Object.values(cache.repositories).map(entry => entry.branches)).toEqual([undefined, undefined])
+    expect(Object.values(cache.repositories).map(entry => entry.pullRequests)).toEqual([[pullRequest], [pullRequest]])
+  })
+
+  it('should prune lists older than the given age', () => {
+    const cache = sampleCache()
+    cache.repositories['jj-vcs/jj'].branchesTimestamp = Date.now() - 40 * 24 * HOUR
+    cache.ownerRepos!['jj-vcs'].timestamp = Date.now() - 40 * 24 * HOUR
+
+    const { cache: pruned, pruned: count } = pruneCache(cache, 30 * 24)
+
+    expect(count).toBe(2)
+    expect(pruned.ownerRepos?.['jj-vcs']).toBeUndefined()
+    expect(pruned.repositories['jj-vcs/jj'].branches).toBeUndefined()
+    expect(pruned.repositories['jj-vcs/jj'].pullRequests).toEqual([pullRequest])
+    expect(pruned.repositories['jj-vcs/jj-gui'].branches).toEqual([branch])
+  })
+
+  it('should keep the newer data when merging caches', () => {
+    const cache = invalidateRepository(sampleCache(), 'jj-vcs/jj', ['branches'])
+    const other = sampleCache()
+    other.repositories['jj-vcs/jj'].pullRequests = []
+    other.repositories['jj-vcs/jj'].pullRequestsTimestamp = 0
+    other.runs = [{ startedAt: 1, options: {} as CliOptions }]
+
+    const merged = mergeCache(cache, other)
+
+    expect(merged.repositories['jj-vcs/jj'].branches).toEqual([branch])
+    expect(merged.repositories['jj-vcs/jj'].pullRequests).toEqual([pullRequest])
+    expect(merged.runs).toEqual([{ startedAt: 1, options: {} }])
+  })
+})
+
+describe('Cache location', () => {
+  afterEach(() => vi.unstubAllEnvs())
+
+  it('should default to the XDG cache directory', () => {
+    vi.stubEnv('FIND_JUJU_CACHE_DIR', '')
+    vi.stubEnv('XDG_CACHE_HOME', '')
+    expect(resolveCacheDir()).toBe(path.join(os.homedir(), '.cache', 'find-juju-users'))
+
+    vi.stubEnv('XDG_CACHE_HOME', '/var/cache/me')
+    expect(resolveCacheDir()).toBe('/var/cache/me/find-juju-users')
+    vi.stubEnv('XDG_CACHE_HOME', 'relative')
+    expect(resolveCacheDir()).toBe(path.join(os.homedir(), '.cache', 'find-juju-users'))
+  })
+
+  it('should prefer --cache-dir over $FIND_JUJU_CACHE_DIR', () => {
+    vi.stubEnv('FIND_JUJU_CACHE_DIR', '/data/juju')
+    expect(resolveCacheDir()).toBe('/data/juju')
+    expect(resolveCacheDir({ dir: 'studies' })).toBe('studies')
+  })
+
+  it('should keep profiles apart', () => {
+    expect(resolveCacheDir({ dir: 'studies', profile: 'top-repos' })).toBe(path.join('studies', 'profiles', 'top-repos'))
+  })
+})
+
+describe('Write-behind saving', () => {
+  const branch = { name: 'main', commit: { sha: 'aaa', url: 'https://example.com/aaa' } }
+  let dir = ''
+  const cachePath = () => path.join(dir, 'find-juju-cache.json')
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'find-juju-save-'))
+    configureStorage('json', { dir })
+    // Start without the changes of the tests above
+    await saveCache(initializeCache())
+    await fs.rm(cachePath())
+    await fs.rm(path.join(dir, 'find-juju-cache.bak.json'), { force: true })
+  })
+  afterAll(async () => {
+    vi.useRealTimers()
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('should save once enough changes are pending or the last save is old enough', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    let cache = initializeCache()
+    cache = cacheBranches(cache, 'jj-vcs', 'jj', [branch])
+    expect(countPendingChanges()).toBe(2) // The repository and its branches
+    await saveCacheIfDue(cache)
+    await expect(fs.access(cachePath())).rejects.toThrow()
+
+    vi.advanceTimersByTime(60 * 1000)
+    await saveCacheIfDue(cache)
+    expect(countPendingChanges()).toBe(0)
+    expect(JSON.parse(await fs.readFile(cachePath(), 'utf-8')).repositories['jj-vcs/jj'].branches).toEqual([branch])
+
+    for (let i = 0; i < 50; i++) {
+      cache = cacheBranches(cache, 'jj-vcs', `repo-${i}`, [branch])
+    }
+    await saveCacheIfDue(cache)
+    expect(countPendingChanges()).toBe(0)
+  })
+
+  it('should report how many changes a save wrote', async () => {
+    const cache = cacheBranches(initializeCache(), 'jj-vcs', 'jj-gui', [branch])
+    expect(await saveCache(cache)).toBe(2)
+    expect(await saveCache(cache)).toBe(0)
+  })
+})
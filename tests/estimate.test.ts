@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { type CacheData, cacheBranches, cachePullRequests, initializeCache } from '../src/cache.js'
+import type { CliOptions } from '../src/cli.js'
+import { estimateDuration, estimateScan } from '../src/estimate.js'
+import type { Branch, PullRequest, Repository } from '../src/github.js'
+
+const MINUTE = 60 * 1000
+
+const repository = (name: string): Repository => ({
+  name,
+  owner: { login: 'jj-vcs' },
+  url: `https://github.com/jj-vcs/${name}`,
+})
+
+const branches = (count: number): Branch[] =>
+  Array.from({ length: count }, (_, index) => ({ name: `push-${index}`, commit: { sha: 'abc123', url: '' } }))
+
+const pullRequest = (number: number): PullRequest => ({
+  number,
+  title: `PR ${number}`,
+  status: 'open',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-02T00:00:00Z',
+  head: { ref: `push-${number}`, label: `jj-vcs:push-${number}` },
+  base: { ref: 'main' },
+  user: { login: 'octocat' },
+  html_url: `https://github.com/jj-vcs/jj/pull/${number}`,
+})
+
+// jj with fresh branches, a stale cached list of docs, and nothing cached for the others
+const cachedScan = (): CacheData => {
+  let cache = initializeCache()
+  cache = cacheBranches(cache, 'jj-vcs', 'jj', branches(250))
+  cache = cacheBranches(cache, 'jj-vcs', 'docs', branches(50))
+  cache.repositories['jj-vcs/docs'].branchesTimestamp = Date.now() - 30 * 24 * 60 * MINUTE
+  cache = cachePullRequests(cache, 'jj-vcs', 'jj', [pullRequest(1), pullRequest(2)])
+  return cache
+}
+
+const repositories = ['jj', 'docs', 'gerrit', 'www'].map(repository)
+
+describe('Scan estimate', () => {
+  it('should count the requests that the cache does not cover', () => {
+    const estimate = estimateScan({ api: 'rest', includePrs: false } as CliOptions, repositories, cachedScan())
+
+    // Uncached lists are as long as the cached ones on average: 150 branches, 2 pages
+    expect(estimate.branches).toEqual({
+      cached: 1,
+      revalidated: 1,
+      fetched: 2,
+      skipped: 0,
+      requests: { 'github.com/core': 5 },
+    })
+    expect(estimate.pullRequests).toBeUndefined()
+  })
+
+  it('should estimate pull requests and apply --max-repos like the scan', () => {
+    const options = { api: 'rest', includePrs: true, maxRepos: 2 } as CliOptions
+    const estimate = estimateScan(options, repositories, cachedScan())
+
+    expect(estimate.branches).toMatchObject({ cached: 1, revalidated: 1, fetched: 0, skipped: 2 })
+    expect(estimate.branches.requests).toEqual({ 'github.com/core': 1 })
+    expect(estimate.pullRequests).toMatchObject({ cached: 1, revalidated: 0, fetched: 1, skipped: 2 })
+    expect(estimate.pullRequests!.requests).toEqual({ 'github.com/core': 1 })
+  })
+
+  it('should batch repositories with the GraphQL backend', () => {
+    const estimate = estimateScan({ api: 'graphql', includePrs: true } as CliOptions, repositories, cachedScan())
+
+    expect(estimate.branches.requests).toEqual({ 'github.com/graphql': 1 })
+    // The batches fetch pull requests too
+    expect(estimate.pullRequests).toMatchObject({ cached: 4, revalidated: 0, fetched: 0, requests: {} })
+  })
+})
+
+describe('Scan duration', () => {
+  const now = Date.parse('2025-06-01T12:00:00Z')
+
+  it('should spread requests within the budget over the workers', () => {
+    const budget = { limit: 5000, remaining: 4000, resetAt: now + 30 * MINUTE }
+
+    expect(estimateDuration(100, 4, budget, now)).toBe(25 * 500)
+    expect(estimateDuration(100, 4, undefined, now)).toBe(25 * 500)
+  })
+
+  it('should wait for resets once the budget is used up', () => {
+    const budget = { limit: 5000, remaining: 100, resetAt: now + 30 * MINUTE }
+
+    // 100 now, 5000 after the reset, the last 900 an hour later
+    expect(estimateDuration(6000, 4, budget, now)).toBe(90 * MINUTE + 225 * 500)
+
+    // A budget whose reset has passed is full again
+    expect(estimateDuration(5000, 4, { ...budget, resetAt: now - MINUTE }, now)).toBe(1250 * 500)
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { getRepoKey, parseForgeSpec, parseOwnerSpec, parseRepoSpec } from '../src/forge.js'
+
+describe('forge specs', () => {
+  it('should parse repositories with and without a host', () => {
+    expect(parseRepoSpec('jj-vcs/jj')).toEqual({ owner: 'jj-vcs', repo: 'jj' })
+    expect(parseRepoSpec('github.com/jj-vcs/jj')).toEqual({ host: undefined, owner: 'jj-vcs', repo: 'jj' })
+    expect(parseRepoSpec('gitlab.com/gitlab-org/ci/runner')).toEqual({
+      host: 'gitlab.com',
+      owner: 'gitlab-org/ci',
+      repo: 'runner',
+    })
+  })
+
+  it('should parse owners with and without a host', () => {
+    expect(parseOwnerSpec('jj-vcs')).toEqual({ owner: 'jj-vcs' })
+    expect(parseOwnerSpec('codeberg.org/forgejo')).toEqual({ host: 'codeberg.org', owner: 'forgejo' })
+  })
+
+  it('should only prefix cache keys with non-default hosts', () => {
+    expect(getRepoKey('jj-vcs', 'jj')).toBe('jj-vcs/jj')
+    expect(getRepoKey('jj-vcs', 'jj', 'github.com')).toBe('jj-vcs/jj')
+    expect(getRepoKey('forgejo', 'forgejo', 'codeberg.org')).toBe('codeberg.org/forgejo/forgejo')
+  })
+
+  it('should parse forge definitions', () => {
+    expect(parseForgeSpec('git.example.com=forgejo')).toEqual({
+      host: 'git.example.com',
+      kind: 'gitea',
+      baseUrl: 'https://git.example.com/api/v1',
+    })
+    expect(parseForgeSpec('ghe.example.com=ghe:https://ghe.example.com/api/v3/')).toEqual({
+      host: 'ghe.example.com',
+      kind: 'github',
+      baseUrl: 'https://ghe.example.com/api/v3',
+    })
+    expect(() => parseForgeSpec('example.com=svn')).toThrow('Invalid forge')
+  })
+})
@@ -1,13 +1,17 @@
-import { beforeAll, describe, expect, it } from 'vitest'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
 import {
+  filterPullRequests,
   getBranches,
   getPullRequests,
   getRepositories,
   getSpecificRepository,
   getTopRepos,
+  mergePullRequests,
   parseRepoString,
+  PullRequest,
 } from '../src/github.js'
 import { execAsync } from '../src/index.js'
+import { setServerErrorWait } from '../src/providers/github.js'
 
 describe('GitHub Functions', () => {
   // Set a timeout for API calls
@@ -67,6 +71,38 @@ describe('GitHub Functions', () => {
     })
   })
 
+  // Test mergePullRequests and filterPullRequests functions (don't require API)
+  describe('mergePullRequests', () => {
+    const pr = (number: number, status: 'open' | 'closed', updatedAt: string): PullRequest => ({
+      number,
+      title: `PR ${number}`,
+      status,
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: updatedAt,
+      head: { ref: `push-${number}`, label: `octocat:push-${number}` },
+      base: { ref: 'main' },
+      user: { login: 'octocat' },
+      html_url: `https://github.com/octocat/Hello-World/pull/${number}`,
+    })
+
+    it('should replace cached pull requests by number and add new ones', () => {
+      const cached = [pr(2, 'open', '2025-02-01T00:00:00Z'), pr(1, 'open', '2025-01-01T00:00:00Z')]
+      const updates = [pr(3, 'open', '2025-03-02T00:00:00Z'), pr(1, 'closed', '2025-03-01T00:00:00Z')]
+
+      const merged = mergePullRequests(cached, updates)
+      expect(merged.map(p => [p.number, p.status])).toEqual([[3, 'open'], [2, 'open'], [1, 'closed']])
+    })
+
+    it('should answer every --pr-status from the same pull requests', () => {
+      const cached = [pr(2, 'open', '2025-02-01T00:00:00Z'), pr(1, 'open', '2025-01-01T00:00:00Z')]
+      const merged = mergePullRequests(cached, [pr(1, 'closed', '2025-03-01T00:00:00Z')])
+
+      expect(filterPullRequests(merged, 'open').map(p => p.number)).toEqual([2])
+      expect(filterPullRequests(merged, 'closed').map(p => p.number)).toEqual([1])
+      expect(filterPullRequests(merged, 'all').map(p => p.number)).toEqual([2, 1])
+    })
+  })
+
   // API-dependent tests
   describe('API-dependent functions', () => {
     // Test getRepositories function
@@ -215,6 +251,14 @@ describe('GitHub Functions', () => {
     let originalConsoleError: typeof console.error
     let originalConsoleWarn: typeof console.warn
 
+    // Network errors are retried without waiting
+    beforeAll(() => {
+      setServerErrorWait(0)
+    })
+    afterAll(() => {
+      setServerErrorWait()
+    })
+
     beforeEach(() => {
       // Save original console methods
       originalConsoleError = console.error
@@ -0,0 +1,211 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { configureStorage, hasFreshBranches, loadCache } from '../src/cache.js'
+import { flushCache, getBranches, getCache, prefetchWithGraphql, searchPullRequestsByHead } from '../src/github.js'
+import { getOctokit } from '../src/providers/github.js'
+
+// GraphQL queries are answered by the handler of each test instead of GitHub
+vi.mock('../src/providers/github.js', () => ({
+  getOctokit: vi.fn(),
+  checkRateLimit: vi.fn(),
+  createGitHubProvider: vi.fn(),
+}))
+
+type GraphqlHandler = (query: string, variables: Record<string, unknown>) => unknown
+
+const answerGraphql = (handler: GraphqlHandler) => {
+  const graphql = vi.fn(async (query: string, variables: Record<string, unknown>) => handler(query, variables))
+  vi.mocked(getOctokit).mockResolvedValue({ graphql } as never)
+  return graphql
+}
+
+// A pull request node for a pull request created on a day
+const pullRequestNode = (number: number, createdAt: string) => ({
+  number,
+  title: `PR ${number}`,
+  state: 'OPEN',
+  createdAt,
+  updatedAt: createdAt,
+  mergedAt: null,
+  closedAt: null,
+  url: `https://github.com/jj-vcs/jj/pull/${number}`,
+  headRefName: `push-${number}`,
+  baseRefName: 'main',
+  headRepositoryOwner: { login: 'octocat' },
+  author: { login: 'octocat' },
+})
+
+// A search result node, which also has the repository of the pull request
+const searchNode = (number: number, createdAt: string) => ({
+  ...pullRequestNode(number, createdAt),
+  repository: { name: 'jj', owner: { login: 'jj-vcs' }, url: 'https://github.com/jj-vcs/jj' },
+})
+
+// The date range of a search query, e.g. ["2026-01-01", "2026-01-31"]
+const searchRange = (variables: Record<string, unknown>) =>
+  /created:(\S+)\.\.(\S+)/.exec(variables.q as string)!.slice(1)
+
+const DAY = 24 * 60 * 60 * 1000
+
+let cacheDir = ''
+
+beforeAll(async () => {
+  cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'find-juju-graphql-'))
+  configureStorage('json', { dir: cacheDir })
+})
+afterEach(() => {
+  vi.mocked(getOctokit).mockReset()
+})
+afterAll(async () => {
+  await fs.rm(cacheDir, { recursive: true, force: true })
+})
+
+describe('Global pull request search', () => {
+  beforeAll(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-03-15T12:00:00Z'))
+  })
+  afterAll(() => {
+    vi.useRealTimers()
+  })
+
+  it('should keep every ended month cached', async () => {
+    const graphql = answerGraphql((_, variables) => {
+      const [from] = searchRange(variables)
+      return {
+        search: {
+          issueCount: 1,
+          pageInfo: { hasNextPage: false, endCursor: null },
+          nodes: [searchNode(Number(from.slice(5, 7)), `${from}T00:00:00Z`)],
+        },
+      }
+    })
+
+    const results = await searchPullRequestsByHead('push-', new Date('2026-01-10T00:00:00Z'))
+    expect(results.map(result => result.pullRequest.number)).toEqual([1, 2, 3])
+    expect(graphql.mock.calls.map(([, variables]) => searchRange(variables))).toEqual([
+      ['2026-01-10', '2026-01-31'],
+      ['2026-02-01', '2026-02-28'],
+      ['2026-03-01', '2026-03-15'],
+    ])
+
+    await flushCache('search done')
+    const saved = await loadCache()
+    expect(Object.keys(saved.globalSearch ?? {}).sort()).toEqual([
+      'is:pr head:push-|2026-01',
+      'is:pr head:push-|2026-02',
+      'is:pr head:push-|2026-03',
+    ])
+    expect(saved.globalSearch!['is:pr head:push-|2026-02'].complete).toBe(true)
+    expect(saved.globalSearch!['is:pr head:push-|2026-03'].complete).toBe(false)
+
+    // The next search only searches the month that hasn't ended
+    graphql.mockClear()
+    const again = await searchPullRequestsByHead('push-', new Date('2026-01-10T00:00:00Z'))
+    expect(again).toHaveLength(3)
+    expect(graphql.mock.calls.map(([, variables]) => searchRange(variables))).toEqual([['2026-03-01', '2026-03-15']])
+  })
+
+  it('should split windows with more results than the search API returns', async () => {
+    const graphql = answerGraphql((_, variables) => {
+      const [from, to] = searchRange(variables)
+      const days = (Date.parse(to) - Date.parse(from)) / DAY + 1
+      // More than 1000 results for anything longer than a week
+      return {
+        search: {
+          issueCount: days > 7 ? 1500 : 1,
+          pageInfo: { hasNextPage: false, endCursor: null },
+          nodes: days > 7 ? [] : [searchNode(Number(from.slice(8, 10)), `${from}T00:00:00Z`)],
+        },
+      }
+    })
+
+    const results = await searchPullRequestsByHead('push-', new Date('2026-03-01T00:00:00Z'), 'open')
+    const windows = graphql.mock.calls.map(([, variables]) => searchRange(variables))
+
+    // 1..15 is split into 1..8 and 9..15, and 1..8 into 1..4 and 5..8
+    expect(windows).toEqual([
+      ['2026-03-01', '2026-03-15'],
+      ['2026-03-01', '2026-03-08'],
+      ['2026-03-01', '2026-03-04'],
+      ['2026-03-05', '2026-03-08'],
+      ['2026-03-09', '2026-03-15'],
+    ])
+    expect(results.map(result => result.pullRequest.number)).toEqual([1, 5, 9])
+    expect((await getCache()).globalSearch?.['is:pr head:push- is:open|2026-03']?.data).toHaveLength(3)
+  })
+})
+
+// The repository nodes of a batch query, with the branches of each repository filtered like refs(query:) does
+const batchResponse = (variables: Record<string, unknown>, branches: Record<string, string[]>) =>
+  Object.fromEntries(Object.keys(variables).filter(name => name.startsWith('name')).map(name => {
+    const index = name.slice('name'.length)
+    const repo = variables[name] as string
+    const refQuery = variables.query0 as string | null
+    return [`repo${index}`, {
+      refs0: {
+        pageInfo: { hasNextPage: false, endCursor: null },
+        nodes: branches[repo]
+          .filter(branch => refQuery === null || branch.includes(refQuery))
+          .map(branch => ({ name: branch, target: { oid: `${repo}-${branch}` } })),
+      },
+      pullRequests: {
+        pageInfo: { hasNextPage: false, endCursor: null },
+        nodes: [pullRequestNode(1, '2026-01-01T00:00:00Z')],
+      },
+    }]
+  }))
+
+describe('GraphQL backend', () => {
+  const repo = (name: string) => ({ name, owner: { login: 'jj-vcs' }, url: `https://github.com/jj-vcs/${name}` })
+  const branches = {
+    'jj': ['main', 'push-qvzorpwlkmxy'],
+    'jj-gui': ['main', 'push-ytlkkrpzsvwn', 'release'],
+    'jj-fzf': ['main', 'push-nmtkrwvvmzqp'],
+  }
+
+  it('should cache all branches of repositories fetched without ref queries', async () => {
+    const graphql = answerGraphql((_, variables) => batchResponse(variables, branches))
+
+    await prefetchWithGraphql([repo('jj'), repo('jj-gui')], [], true)
+    expect(graphql).toHaveBeenCalledTimes(1)
+
+    const cache = await getCache()
+    expect(cache.repositories['jj-vcs/jj'].branches?.map(branch => branch.name)).toEqual(branches.jj)
+    expect(cache.repositories['jj-vcs/jj-gui'].branches?.map(branch => branch.name)).toEqual(branches['jj-gui'])
+    expect(cache.repositories['jj-vcs/jj-gui'].pullRequests).toHaveLength(1)
+  })
+
+  it('should leave the pull requests of cached repositories to getPullRequests', async () => {
+    const cache = await getCache()
+    const pages = { 'https://api.github.com/repos/jj-vcs/jj/pulls?state=all': { etag: '"a"', offset: 0, count: 1 } }
+    cache.repositories['jj-vcs/jj'].pullRequestsPages = pages
+    cache.repositories['jj-vcs/jj'].pullRequestsTimestamp = 0
+    const graphql = answerGraphql((_, variables) => batchResponse(variables, branches))
+
+    // jj is stale and synced incrementally, jj-gui is fresh
+    await prefetchWithGraphql([repo('jj'), repo('jj-gui')], [], true)
+    expect(graphql).toHaveBeenCalledTimes(1)
+    expect(graphql.mock.calls[0][0]).not.toContain('pullRequests(')
+    expect(cache.repositories['jj-vcs/jj'].pullRequestsPages).toEqual(pages)
+    expect(cache.repositories['jj-vcs/jj'].pullRequestsTimestamp).toBe(0)
+  })
+
+  it('should cache branches filtered by ref queries only for runs with the same queries', async () => {
+    const graphql = answerGraphql((_, variables) => batchResponse(variables, branches))
+
+    await prefetchWithGraphql([repo('jj-fzf')], ['push-'], true)
+    expect(graphql).toHaveBeenCalledTimes(1)
+
+    const cache = await getCache()
+    expect(cache.repositories['jj-vcs/jj-fzf'].branchesRefQueries).toEqual(['push-'])
+    expect((await getBranches('jj-vcs', 'jj-fzf', undefined, ['push-'])).map(branch => branch.name))
+      .toEqual(['push-nmtkrwvvmzqp'])
+    expect(hasFreshBranches(cache, 'jj-vcs/jj-fzf', ['push-'])).toBe(true)
+    // A run fetching all branches, with the REST backend, isn't served the filtered ones
+    expect(hasFreshBranches(cache, 'jj-vcs/jj-fzf')).toBe(false)
+    expect(cache.repositories['jj-vcs/jj-fzf'].pullRequests).toHaveLength(1)
+  })
+})
@@ -0,0 +1,101 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { CliOptions } from '../src/cli.js'
+import {
+  finishJournal,
+  markRepo,
+  planPhase,
+  resetJournal,
+  resumedOptions,
+  resumeJournal,
+  setJournalRepositories,
+  startJournal,
+} from '../src/journal.js'
+
+const options = { repos: ['jj-vcs/jj'], maxRepos: 2, concurrency: 4, clearCache: true } as CliOptions
+
+describe('Run journal', () => {
+  let cacheDir = ''
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'find-juju-journal-'))
+  })
+  afterEach(async () => {
+    resetJournal()
+    await fs.rm(cacheDir, { recursive: true, force: true })
+  })
+
+  it('should resume the latest unfinished run as it was saved', async () => {
+    const started = await startJournal(cacheDir, options)
+    setJournalRepositories([{ name: 'jj', owner: { login: 'jj-vcs' }, url: 'https://github.com/jj-vcs/jj' }])
+    planPhase('branches', { 'jj-vcs/jj': 'pending', 'jj-vcs/docs': 'done' })
+    markRepo('branches', 'jj-vcs/jj', 'failed')
+    await finishJournal()
+    started.finishedAt = undefined
+    await fs.writeFile(path.join(cacheDir, 'runs', `${started.id}.json`), JSON.stringify(started))
+    resetJournal()
+
+    const resumed = await resumeJournal(cacheDir, '')
+    expect(resumed.id).toBe(started.id)
+    expect(resumed.repositories).toHaveLength(1)
+    expect(resumed.phases).toEqual({ branches: { 'jj-vcs/jj': 'failed', 'jj-vcs/docs': 'done' } })
+    expect(await resumeJournal(cacheDir, started.id)).toMatchObject({ id: started.id })
+  })
+
+  it('should not resume finished or unknown runs', async () => {
+    const started = await startJournal(cacheDir, options)
+    await finishJournal()
+
+    await expect(resumeJournal(cacheDir, '')).rejects.toThrow('There is no unfinished run')
+    await expect(resumeJournal(cacheDir, started.id)).rejects.toThrow(`There is no unfinished run ${started.id}`)
+  })
+
+  it('should give runs started in the same second journals of their own', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-06-01T12:00:00Z'))
+    try {
+      const first = await startJournal(cacheDir, options)
+      const second = await startJournal(cacheDir, options)
+
+      expect(first.id).toMatch(/^20250601-120000-[0-9a-f]{4}$/)
+      expect(second.id).not.toBe(first.id)
+      const files = await fs.readdir(path.join(cacheDir, 'runs'))
+      expect(files.sort()).toEqual([`${first.id}.json`, `${second.id}.json`].sort())
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should remove the journals of all but the latest unfinished runs', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    try {
+      const ids: string[] = []
+      for (let run = 0; run < 12; run++) {
+        vi.setSystemTime(Date.UTC(2025, 5, 1, run))
+        ids.push((await startJournal(cacheDir, options)).id)
+      }
+
+      // The last start kept the 10 runs before it, without the oldest one
+      const files = await fs.readdir(path.join(cacheDir, 'runs'))
+      expect(files.sort()).toEqual(ids.slice(1).map(id => `${id}.json`))
+      expect((await resumeJournal(cacheDir, '')).id).toBe(ids[11])
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should resume with the options that the run was started with', async () => {
+    const started = await startJournal(cacheDir, options)
+    const resumeOptions = { resume: '', concurrency: 1, maxRepos: 10, clearCache: false } as CliOptions
+
+    expect(resumedOptions(started, resumeOptions)).toMatchObject({
+      repos: ['jj-vcs/jj'],
+      maxRepos: 2,
+      concurrency: 1,
+      // Clearing the cache would lose the work that the run did
+      clearCache: false,
+    })
+  })
+})
@@ -0,0 +1,66 @@
+import { execFile } from 'child_process'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { promisify } from 'util'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { readLocalRefs, usernameFromEmail } from '../src/local.js'
+
+const execFileAsync = promisify(execFile)
+
+describe('Local repositories', () => {
+  let repoPath = ''
+
+  const git = (...args: string[]) => execFileAsync('git', ['-C', repoPath, ...args])
+
+  const commit = async (message: string, author: string) => {
+    await git('-c', 'commit.gpgsign=false', 'commit', '--allow-empty', '-q', '-m', message, `--author=${author}`)
+    const { stdout } = await git('rev-parse', 'HEAD')
+    return stdout.trim()
+  }
+
+  beforeAll(async () => {
+    repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'find-juju-local-'))
+    await execFileAsync('git', ['init', '-q', '-b', 'main', repoPath])
+    await git('config', 'user.name', 'Test')
+    await git('config', 'user.email', 'test@example.com')
+
+    await commit('initial', 'Test <test@example.com>')
+    const pushed = await commit('feature', 'Octo Cat <583231+octocat@users.noreply.github.com>')
+    await git('branch', 'push-qvzorpwlkmxy', pushed)
+    await git('update-ref', 'refs/remotes/origin/push-qvzorpwlkmxy', pushed)
+    await git('update-ref', 'refs/pull/12/head', pushed)
+
+    const other = await commit('other', 'Jane Doe <jane@example.com>')
+    await git('update-ref', 'refs/remotes/origin/push-tnmlsyoqzwkr', other)
+  })
+
+  afterAll(async () => {
+    await fs.rm(repoPath, { recursive: true, force: true })
+  })
+
+  it('should get usernames from author emails', () => {
+    expect(usernameFromEmail('<583231+octocat@users.noreply.github.com>')).toBe('octocat')
+    expect(usernameFromEmail('<octocat@users.noreply.github.com>')).toBe('octocat')
+    expect(usernameFromEmail('<jane@example.com>')).toBe('jane')
+    expect(usernameFromEmail('')).toBeUndefined()
+  })
+
+  it('should read local and remote branches once, and pull request heads', async () => {
+    const { branches, pullRequestHeads } = await readLocalRefs(repoPath)
+
+    expect(branches.map(branch => branch.name).sort()).toEqual([
+      'main',
+      'push-qvzorpwlkmxy',
+      'push-tnmlsyoqzwkr',
+    ])
+
+    const pushed = branches.find(branch => branch.name === 'push-qvzorpwlkmxy')!
+    expect(pushed.author.email).toBe('<583231+octocat@users.noreply.github.com>')
+    expect(pullRequestHeads.has(pushed.commit.sha)).toBe(true)
+  })
+
+  it('should fail for paths that are not git repositories', async () => {
+    await expect(readLocalRefs(path.join(repoPath, 'missing'))).rejects.toThrow()
+  })
+})
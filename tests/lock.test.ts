@@ -0,0 +1,50 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { acquireLock, STALE_LOCK_AGE } from '../src/lock.js'
+
+describe('Cache lock', () => {
+  let dir = ''
+  let lockPath = ''
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'find-juju-lock-'))
+    lockPath = path.join(dir, 'cache.lock')
+  })
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('should refuse a lock held by a running process', async () => {
+    const lock = await acquireLock(lockPath)
+    expect(JSON.parse(await fs.readFile(lockPath, 'utf-8'))).toMatchObject({ pid: process.pid })
+
+    await expect(acquireLock(lockPath)).rejects.toThrow(`in use by another run (process ${process.pid}`)
+
+    lock.release()
+    await expect(fs.access(lockPath)).rejects.toThrow()
+    const next = await acquireLock(lockPath)
+    next.release()
+  })
+
+  it('should take over the lock of a process that is gone', async () => {
+    // Above the largest process ID of Linux, so no process has it
+    await fs.writeFile(lockPath, JSON.stringify({ pid: 2 ** 22 + 1, hostname: os.hostname(), acquiredAt: 0 }))
+
+    const lock = await acquireLock(lockPath)
+    expect(JSON.parse(await fs.readFile(lockPath, 'utf-8'))).toMatchObject({ pid: process.pid })
+    lock.release()
+  })
+
+  it('should take over locks of other hosts once they are no longer refreshed', async () => {
+    await fs.writeFile(lockPath, JSON.stringify({ pid: process.pid, hostname: 'elsewhere', acquiredAt: 0 }))
+    await expect(acquireLock(lockPath)).rejects.toThrow('on elsewhere')
+
+    const lastRefresh = new Date(Date.now() - STALE_LOCK_AGE - 60_000)
+    await fs.utimes(lockPath, lastRefresh, lastRefresh)
+    const lock = await acquireLock(lockPath)
+    expect(JSON.parse(await fs.readFile(lockPath, 'utf-8'))).toMatchObject({ hostname: os.hostname() })
+    lock.release()
+  })
+})
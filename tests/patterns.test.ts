@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest'
+import {
+  computeConfidence,
+  createPatternRegistry,
+  matchBranchName,
+  parsePatternSpec,
+  scoreMatch,
+} from '../src/patterns.js'
+
+describe('Branch patterns', () => {
+  describe('built-in jj pattern', () => {
+    const registry = createPatternRegistry()
+
+    it('should match a bare push- bookmark', () => {
+      const match = matchBranchName(registry, 'push-kmyxnvqzwpsr')
+      expect(match).toEqual({ pattern: 'jj-push', tool: 'jj', changeId: 'kmyxnvqzwpsr', standardPrefix: true })
+    })
+
+    it('should extract the username from a prefixed push- bookmark', () => {
+      const match = matchBranchName(registry, 'alice/push-kmyxnvqzwpsr')
+      expect(match?.username).toBe('alice')
+    })
+
+    it('should not match other branch names', () => {
+      expect(matchBranchName(registry, 'main')).toBeNull()
+      expect(matchBranchName(registry, 'push-short')).toBeNull()
+    })
+  })
+
+  describe('other stacked-diff tools', () => {
+    const registry = createPatternRegistry()
+
+    it('should detect ghstack head branches', () => {
+      expect(matchBranchName(registry, 'gh/alice/12/head')).toMatchObject({ tool: 'ghstack', username: 'alice' })
+      expect(matchBranchName(registry, 'gh/alice/12/base')).toBeNull()
+    })
+
+    it('should detect spr branches', () => {
+      expect(matchBranchName(registry, 'spr/main/1a2b3c4d')).toMatchObject({ tool: 'spr' })
+      expect(matchBranchName(registry, 'spr/alice/fix-the-thing')).toMatchObject({ tool: 'spr', username: 'alice' })
+    })
+
+    it('should detect Sapling branches', () => {
+      expect(matchBranchName(registry, 'pr1234')).toMatchObject({ tool: 'sapling' })
+      expect(matchBranchName(registry, 'preview')).toBeNull()
+    })
+
+    it('should detect Graphite branches', () => {
+      expect(matchBranchName(registry, '07-24-fix_the_thing')).toMatchObject({ tool: 'graphite' })
+      expect(matchBranchName(registry, 'alice/07-24-fix_the_thing')).toMatchObject({
+        tool: 'graphite',
+        username: 'alice',
+      })
+      expect(matchBranchName(registry, '13-24-fix_the_thing')).toBeNull()
+    })
+
+    it('should score tools by their own id format', () => {
+      const match = matchBranchName(registry, 'gh/alice/12/head')!
+      expect(scoreMatch(match, true).confidence).toBe(1)
+    })
+
+    it('should not be affected by strict mode', () => {
+      const strict = createPatternRegistry([], { strict: true })
+      expect(matchBranchName(strict, 'gh/alice/12/head')).not.toBeNull()
+    })
+  })
+
+  describe('custom patterns', () => {
+    it('should parse "name=regex" specs', () => {
+      expect(parsePatternSpec('prefix=^(?<user>[^/]+)/jj-')).toEqual({
+        name: 'prefix',
+        regex: '^(?<user>[^/]+)/jj-',
+      })
+    })
+
+    it('should treat specs without a valid name as a bare regex', () => {
+      const spec = '^(?=jj-)jj-[a-z]{12}$'
+      expect(parsePatternSpec(spec)).toEqual({ name: spec, regex: spec })
+    })
+
+    it('should match git.push-bookmark-prefix style bookmarks', () => {
+      const registry = createPatternRegistry([
+        parsePatternSpec('prefix=^(?<user>[^/]+)/jj-[a-z0-9]{12}$'),
+      ])
+      expect(matchBranchName(registry, 'alice/jj-kmyxnvqzwpsr')).toEqual({
+        pattern: 'prefix',
+        tool: 'jj',
+        username: 'alice',
+        standardPrefix: false,
+      })
+    })
+
+    it('should reject invalid regexes', () => {
+      expect(() => createPatternRegistry([{ name: 'broken', regex: '(' }])).toThrow('Invalid regex')
+    })
+  })
+
+  describe('strict mode', () => {
+    const registry = createPatternRegistry([], { strict: true })
+
+    it('should accept change ids from the reversed-hex alphabet', () => {
+      expect(matchBranchName(registry, 'push-kmyxnvqzwpsr')).not.toBeNull()
+    })
+
+    it('should reject branch names outside the change-id alphabet', () => {
+      expect(matchBranchName(createPatternRegistry(), 'push-release20245')).not.toBeNull()
+      expect(matchBranchName(registry, 'push-release20245')).toBeNull()
+      expect(matchBranchName(registry, 'push-KMYXNVQZWPSR')).toBeNull()
+    })
+
+    it('should reject custom jj patterns without a change id', () => {
+      const strict = createPatternRegistry([{ name: 'custom', regex: '^jj/' }], { strict: true })
+      expect(matchBranchName(strict, 'jj/feature')).toBeNull()
+    })
+  })
+
+  describe('confidence', () => {
+    const registry = createPatternRegistry()
+
+    it('should give full confidence to a real change id with a pull request', () => {
+      const match = matchBranchName(registry, 'push-kmyxnvqzwpsr')!
+      expect(scoreMatch(match, true).confidence).toBe(1)
+    })
+
+    it('should lower confidence for ids outside the change-id alphabet', () => {
+      const match = matchBranchName(registry, 'push-abcdef123456')!
+      const { signals, confidence } = scoreMatch(match, false)
+      expect(signals).toEqual({ alphabet: false, length: true, prefix: true, pullRequest: false })
+      expect(confidence).toBe(0.4)
+    })
+
+    it('should not count nested prefixes as the default prefix shape', () => {
+      const match = matchBranchName(registry, 'team/alice/push-kmyxnvqzwpsr')!
+      expect(match.username).toBe('alice')
+      expect(match.standardPrefix).toBe(false)
+    })
+
+    it('should weigh all signals', () => {
+      expect(computeConfidence({ alphabet: false, length: false, prefix: false, pullRequest: false })).toBe(0)
+      expect(computeConfidence({ alphabet: true, length: true, prefix: true, pullRequest: false })).toBe(0.8)
+    })
+  })
+})
@@ -0,0 +1,128 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { configureStorage } from '../src/cache.js'
+import { getBranches, getCache } from '../src/github.js'
+import { getRetryDelay } from '../src/providers/github.js'
+import { fetchJson } from '../src/providers/http.js'
+import {
+  formatBudget,
+  getBudget,
+  pauseIfBudgetUsedUp,
+  rateLimitResource,
+  recordRateLimit,
+  resetBudgets,
+} from '../src/ratelimit.js'
+import { waitForRequests } from '../src/scheduler.js'
+
+// An error shaped like Octokit's RequestError
+const requestError = (status: number, message: string, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(message), { status, response: { headers } })
+
+describe('Rate limit budget', () => {
+  afterEach(() => {
+    resetBudgets()
+    vi.useRealTimers()
+  })
+
+  it('should tell the resources of GitHub requests apart', () => {
+    expect(rateLimitResource('https://api.github.com/repos/jj-vcs/jj/branches?per_page=100')).toBe('core')
+    expect(rateLimitResource('https://api.github.com/search/issues?q=head%3Apush-')).toBe('search')
+    expect(rateLimitResource('https://api.github.com/graphql')).toBe('graphql')
+  })
+
+  it('should record the budget from rate limit headers', () => {
+    expect(formatBudget()).toBe('')
+
+    recordRateLimit('github.com/core', { 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '4210' })
+    expect(getBudget('github.com/core')).toBeUndefined()
+
+    recordRateLimit('github.com/core', {
+      'x-ratelimit-limit': '5000',
+      'x-ratelimit-remaining': '4210',
+      'x-ratelimit-reset': '1760000000',
+    })
+    expect(getBudget('github.com/core')).toEqual({ limit: 5000, remaining: 4210, resetAt: 1760000000000 })
+    expect(formatBudget()).toBe(' [rate limit: 4210/5000]')
+  })
+
+  it('should pause requests until the reset when the budget is used up', async () => {
+    vi.useFakeTimers()
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+    const reset = Math.ceil(Date.now() / 1000) + 60
+    recordRateLimit('github.com/core', {
+      'x-ratelimit-limit': '5000',
+      'x-ratelimit-remaining': '0',
+      'x-ratelimit-reset': String(reset),
+    })
+
+    pauseIfBudgetUsedUp('github.com/core')
+    let resumed = false
+    const waiting = waitForRequests().then(() => resumed = true)
+
+    await vi.advanceTimersByTimeAsync(reset * 1000 - Date.now())
+    expect(resumed).toBe(false)
+    await vi.advanceTimersByTimeAsync(1000)
+    await waiting
+    expect(resumed).toBe(true)
+    vi.mocked(process.stdout.write).mockRestore()
+  })
+})
+
+describe('Retrying GitHub requests', () => {
+  it('should pause all requests after rate limits', () => {
+    expect(getRetryDelay(requestError(403, 'You have exceeded a secondary rate limit', { 'retry-after': '30' }), 0))
+      .toEqual({ wait: 30000, pauseAll: 'Hit a secondary rate limit' })
+    expect(getRetryDelay(requestError(429, 'You have exceeded a secondary rate limit'), 0))
+      .toEqual({ wait: 60000, pauseAll: 'Hit a secondary rate limit' })
+
+    const reset = String(Math.floor(Date.now() / 1000) + 120)
+    const exceeded = requestError(403, 'API rate limit exceeded', {
+      'x-ratelimit-remaining': '0',
+      'x-ratelimit-reset': reset,
+    })
+    expect(getRetryDelay(exceeded, 0)?.wait).toBeGreaterThan(115000)
+    expect(getRetryDelay(exceeded, 0)?.pauseAll).toBe('Rate limit exceeded')
+  })
+
+  it('should back off exponentially after server errors', () => {
+    expect(getRetryDelay(requestError(502, 'Bad Gateway'), 0)).toEqual({ wait: 1000 })
+    expect(getRetryDelay(requestError(500, 'fetch failed'), 2)).toEqual({ wait: 4000 })
+    expect(getRetryDelay(requestError(500, 'fetch failed'), 3)).toBeUndefined()
+  })
+
+  it('should not retry other errors', () => {
+    expect(getRetryDelay(requestError(404, 'Not Found'), 0)).toBeUndefined()
+    expect(getRetryDelay(requestError(403, 'Resource not accessible by integration'), 0)).toBeUndefined()
+    expect(getRetryDelay(new Error('No fixture for GET https://api.github.com/user'), 0)).toBeUndefined()
+  })
+})
+
+describe('Rate limits of other forges', () => {
+  let cacheDir = ''
+
+  beforeAll(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'find-juju-ratelimit-'))
+    configureStorage('json', { dir: cacheDir })
+  })
+  afterAll(async () => {
+    vi.unstubAllGlobals()
+    await fs.rm(cacheDir, { recursive: true, force: true })
+  })
+
+  it('should not take rate-limited repositories for ones without branches', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 429, statusText: 'Too Many Requests' })))
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    try {
+      await expect(fetchJson('https://gitlab.com/api/v4/projects/1', {})).rejects.toMatchObject({ status: 429 })
+      await expect(getBranches('gitlab-org', 'gitlab', 'gitlab.com')).rejects.toThrow(
+        'Could not fetch branches for gitlab.com/gitlab-org/gitlab: HTTP 429 Too Many Requests',
+      )
+      expect((await getCache()).repositories['gitlab.com/gitlab-org/gitlab']).toBeUndefined()
+    } finally {
+      vi.mocked(console.log).mockRestore()
+    }
+  })
+})
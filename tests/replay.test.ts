@@ -0,0 +1,195 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { configureStorage, setMaxAge } from '../src/cache.js'
+import type { CliOptions } from '../src/cli.js'
+import { conditionalListing, getProvider } from '../src/forge.js'
+import { type Branch, getSpecificRepository } from '../src/github.js'
+import { findMatchingBranches, findMatchingPullRequests, withPullRequestSignal } from '../src/index.js'
+import { getJournal, planPhase, resetJournal, startJournal } from '../src/journal.js'
+import { createPatternRegistry } from '../src/patterns.js'
+import { configureRecorder, getFixtureKey, getFixturePath, resetRecorder } from '../src/recorder.js'
+import { printMemberReport } from '../src/report.js'
+
+// Hand-written traffic in the format of --record, not a recording of GitHub (see fixtures/README.md)
+const FIXTURE_DIR = path.join(import.meta.dirname, 'fixtures', 'synthetic-jj-vcs-jj')
+
+const options: CliOptions = {
+  owners: [],
+  repos: ['jj-vcs/jj'],
+  forges: [],
+  forksOf: [],
+  forkDepth: 1,
+  forkMinStars: 0,
+  local: [],
+  orgMembers: [],
+  memberMaxRepos: 30,
+  concurrency: 1,
+  dryRun: false,
+  includePrs: true,
+  prStatus: 'all',
+  api: 'rest',
+  globalSearch: false,
+  searchSince: '2020-01-01',
+  patterns: [],
+  strict: false,
+  minConfidence: 0,
+  forceRefresh: false,
+  clearCache: false,
+  storage: 'sqlite',
+}
+
+describe('Replaying synthetic jj-vcs/jj traffic', () => {
+  let cacheDir = ''
+
+  beforeAll(async () => {
+    // A cache of its own, so that a cache from earlier runs can't hide the fixtures
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'find-juju-replay-'))
+    configureStorage('sqlite', { dir: cacheDir })
+    configureRecorder('replay', FIXTURE_DIR)
+  })
+  afterAll(async () => {
+    resetRecorder()
+    await fs.rm(cacheDir, { recursive: true, force: true })
+  })
+
+  it('should find jj branches without network access', async () => {
+    const matches = await findMatchingBranches(options, createPatternRegistry())
+
+    expect(matches.map(match => match.branch)).toEqual([
+      'push-qvzorpwlkmxy',
+      'push-tnmlsyoqzwkr',
+      'hubot/push-rkxnvmolpqsz',
+    ])
+    expect(matches.every(match => match.repository === 'jj-vcs/jj' && match.tool === 'jj')).toBe(true)
+    expect(matches[2].username).toBe('hubot')
+  })
+
+  it('should find jj pull requests without network access', async () => {
+    const repository = await getSpecificRepository('jj-vcs', 'jj')
+    const matches = await findMatchingPullRequests(options, [repository], createPatternRegistry())
+
+    expect(matches.map(match => [match.prNumber, match.username, match.status])).toEqual([
+      [6012, 'octocat', 'open'],
+      [6004, 'hubot', 'closed'],
+    ])
+  })
+
+  it('should answer other --pr-status values from the cached pull requests', async () => {
+    const repository = await getSpecificRepository('jj-vcs', 'jj')
+    const openOptions = { ...options, prStatus: 'open' as const }
+    const matches = await findMatchingPullRequests(openOptions, [repository], createPatternRegistry())
+
+    expect(matches.map(match => match.prNumber)).toEqual([6012])
+  })
+
+  it('should resume a phase with the repositories of its journal', async () => {
+    const repository = await getSpecificRepository('jj-vcs', 'jj')
+    await startJournal(cacheDir, options)
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    try {
+      // Pending repositories are fetched, or served from the cache while it's fresh, and recorded as done
+      planPhase('pullRequests', { 'jj-vcs/jj': 'pending' })
+      await findMatchingPullRequests(options, [repository], createPatternRegistry())
+      expect(getJournal()!.phases.pullRequests).toEqual({ 'jj-vcs/jj': 'done' })
+
+      // Done repositories come from the cache, however old it is
+      setMaxAge({ prs: 0 })
+      const matches = await findMatchingPullRequests(options, [repository], createPatternRegistry())
+      expect(matches.map(match => match.prNumber)).toEqual([6012, 6004])
+      expect(log).toHaveBeenCalledWith('Using cached PRs for 1 repositories, fetching for 0 repositories.')
+
+      // Repositories that aren't in the journal were beyond --max-repos
+      planPhase('pullRequests', {})
+      expect(await findMatchingPullRequests(options, [repository], createPatternRegistry())).toEqual([])
+    } finally {
+      log.mockRestore()
+      setMaxAge({})
+      resetJournal()
+    }
+  })
+
+  it('should attribute branches in forks to the fork owner', async () => {
+    const forkOptions = { ...options, repos: [], forksOf: ['jj-vcs/jj'], forkMinStars: 1 }
+    const matches = await findMatchingBranches(forkOptions, createPatternRegistry())
+
+    expect(matches).toHaveLength(1)
+    expect(matches[0]).toMatchObject({ repository: 'octocat/jj', branch: 'push-vwmlnqtrkysz', username: 'octocat' })
+  })
+
+  it('should give branches in forks the signal of their pull requests upstream', async () => {
+    const forkOptions = { ...options, repos: [], forksOf: ['jj-vcs/jj'], forkMinStars: 1 }
+    const branches = await findMatchingBranches(forkOptions, createPatternRegistry())
+    const repository = await getSpecificRepository('jj-vcs', 'jj')
+    const [pullRequest] = await findMatchingPullRequests(options, [repository], createPatternRegistry())
+
+    // A pull request in jj-vcs/jj from octocat's fork, and one from another fork with the same branch name
+    const fromFork = { ...pullRequest, branchName: 'push-vwmlnqtrkysz', headOwner: 'octocat' }
+    const fromOtherFork = { ...fromFork, headOwner: 'hubot' }
+
+    expect(withPullRequestSignal(branches, [fromFork])[0].signals.pullRequest).toBe(true)
+    expect(withPullRequestSignal(branches, [fromOtherFork])[0].signals.pullRequest).toBe(false)
+  })
+
+  it('should scan the personal repositories of organization members', async () => {
+    const memberOptions = { ...options, repos: [], orgMembers: ['jj-vcs'] }
+    const matches = await findMatchingBranches(memberOptions, createPatternRegistry())
+
+    expect(matches.map(match => `${match.repository}:${match.branch}`)).toEqual(['octocat/jj:push-vwmlnqtrkysz'])
+
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    printMemberReport(
+      [
+        { org: 'jj-vcs', login: 'octocat', ownerKey: 'octocat' },
+        { org: 'jj-vcs', login: 'hubot', ownerKey: 'hubot' },
+      ],
+      matches,
+      [],
+    )
+    const output = log.mock.calls.map(call => call.join(' ')).join('\n')
+    log.mockRestore()
+
+    expect(output).toContain('octocat: jj (1 branch)')
+    expect(output).toContain('Adoption: 1 of 2 public members (50.0%)')
+  })
+
+  it('should fail for requests that were not recorded', async () => {
+    await expect(getSpecificRepository('jj-vcs', 'not-recorded')).rejects.toThrow(
+      'Failed to fetch repository jj-vcs/not-recorded',
+    )
+  })
+})
+
+describe('Revalidating cached listings', () => {
+  const branchesUrl = 'https://api.github.com/repos/jj-vcs/jj/branches?per_page=100'
+  let dir = ''
+
+  beforeAll(async () => {
+    // A branches page that hasn't changed since it was cached
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'find-juju-conditional-'))
+    await fs.writeFile(
+      getFixturePath(dir, getFixtureKey('GET', branchesUrl)),
+      JSON.stringify({
+        request: { method: 'GET', url: branchesUrl },
+        response: { status: 304, url: branchesUrl, headers: { etag: '"v1"' }, data: '' },
+      }),
+    )
+    configureRecorder('replay', dir)
+  })
+  afterAll(async () => {
+    resetRecorder()
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('should reuse the cached page when the server answers 304 Not Modified', async () => {
+    const cached: Branch[] = [{ name: 'push-qvzorpwlkmxy', commit: { sha: 'abc123', url: 'https://example.com' } }]
+    const conditional = conditionalListing(cached, { [branchesUrl]: { etag: '"v1"', offset: 0, count: 1 } })
+
+    const branches = await getProvider('github.com').listBranches('jj-vcs', 'jj', conditional)
+
+    expect(branches).toEqual(cached)
+    expect(conditional.pages[branchesUrl]).toEqual({ etag: '"v1"', offset: 0, count: 1 })
+  })
+})
@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { pauseRequests, runPool } from '../src/scheduler.js'
+
+describe('Worker pool', () => {
+  afterEach(() => vi.useRealTimers())
+
+  it('should keep the order of the items and the concurrency limit', async () => {
+    let running = 0
+    let maxRunning = 0
+
+    // Later items finish first
+    const results = await runPool([5, 4, 3, 2, 1], 2, async item => {
+      running++
+      maxRunning = Math.max(maxRunning, running)
+      await new Promise(resolve => setTimeout(resolve, item))
+      running--
+      return item * 10
+    })
+
+    expect(results).toEqual([50, 40, 30, 20, 10])
+    expect(maxRunning).toBe(2)
+  })
+
+  it('should hold back all workers while requests are paused', async () => {
+    vi.useFakeTimers()
+    const started: number[] = []
+
+    pauseRequests(1000, 'Paused for the test')
+    const pool = runPool([1, 2, 3], 3, async item => {
+      started.push(item)
+    })
+
+    await vi.advanceTimersByTimeAsync(999)
+    expect(started).toEqual([])
+
+    await vi.advanceTimersByTimeAsync(1)
+    await pool
+    expect(started).toEqual([1, 2, 3])
+  })
+})
@@ -0,0 +1,202 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  cacheBranches,
+  type CacheData,
+  cacheOwnerRepositories,
+  cachePullRequests,
+  initializeCache,
+} from '../src/cache.js'
+import { migrateCache } from '../src/migrations.js'
+import { allChanges, emptyChanges } from '../src/storage.js'
+import { createJsonStorage } from '../src/storage/json.js'
+import { createSqliteStorage, isSqliteAvailable } from '../src/storage/sqlite.js'
+
+const sqliteAvailable = await isSqliteAvailable()
+
+// A cache with an owner's repositories, branches and pull requests
+const sampleCache = (): CacheData => {
+  let cache = initializeCache()
+  cache = cacheOwnerRepositories(cache, 'jj-vcs', [
+    { name: 'jj', owner: { login: 'jj-vcs' }, url: 'https://github.com/jj-vcs/jj', stars: 10000 },
+    { name: 'jj-gui', owner: { login: 'jj-vcs' }, url: 'https://github.com/jj-vcs/jj-gui' },
+  ], { 'https://api.github.com/orgs/jj-vcs/repos?per_page=100': { etag: '"a"', offset: 0, count: 2 } })
+  cache = cacheBranches(cache, 'jj-vcs', 'jj', [
+    { name: 'main', commit: { sha: 'aaa', url: 'https://example.com/aaa' } },
+    { name: 'push-qvzorpwlkmxy', commit: { sha: 'bbb', url: 'https://example.com/bbb' } },
+  ])
+  cache = cacheBranches(cache, 'jj-vcs', 'jj-gui', [
+    { name: 'push-nmtkrwvvmzqp', commit: { sha: 'ccc', url: 'https://example.com/ccc' } },
+  ], undefined, undefined, ['push-'])
+  cache = cachePullRequests(cache, 'jj-vcs', 'jj', [
+    {
+      number: 6012,
+      title: 'Open pull request',
+      status: 'open',
+      created_at: '2025-03-01T00:00:00Z',
+      updated_at: '2025-03-02T00:00:00Z',
+      merged_at: null,
+      closed_at: null,
+      head: { ref: 'push-qvzorpwlkmxy', label: 'yuja:push-qvzorpwlkmxy' },
+      base: { ref: 'main' },
+      user: { login: 'yuja' },
+      html_url: 'https://github.com/jj-vcs/jj/pull/6012',
+    },
+  ])
+  return cache
+}
+
+describe('Cache storage', () => {
+  let dir = ''
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'find-juju-storage-'))
+  })
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('should round-trip a cache through the JSON file', async () => {
+    const storage = createJsonStorage(path.join(dir, 'cache.json'))
+    expect(await storage.load()).toBeNull()
+
+    const cache = sampleCache()
+    await storage.save(cache, allChanges(cache))
+    expect(await storage.load()).toEqual(cache)
+
+    await storage.clear()
+    expect(await storage.load()).toBeNull()
+  })
+
+  it.skipIf(!sqliteAvailable)('should round-trip a cache through SQLite', async () => {
+    const storage = await createSqliteStorage(path.join(dir, 'cache.db'))
+    expect(await storage.load()).toBeNull()
+
+    const cache = sampleCache()
+    await storage.save(cache, allChanges(cache))
+    expect(await storage.load()).toEqual(cache)
+  })
+
+  it.skipIf(!sqliteAvailable)('should only write the changed entries to SQLite', async () => {
+    const storage = await createSqliteStorage(path.join(dir, 'cache.db'))
+    const cache = sampleCache()
+    await storage.save(cache, allChanges(cache))
+
+    // Change the branches, but only report the pull requests as changed
+    cache.repositories['jj-vcs/jj'].branches = []
+    cache.repositories['jj-vcs/jj'].pullRequests = []
+    await storage.save(cache, { ...emptyChanges(), pullRequests: new Set(['jj-vcs/jj']) })
+
+    const loaded = await storage.load()
+    expect(loaded?.repositories['jj-vcs/jj'].branches).toHaveLength(2)
+    expect(loaded?.repositories['jj-vcs/jj'].pullRequests).toEqual([])
+  })
+
+  it.skipIf(!sqliteAvailable)('should import the JSON cache into an empty SQLite database', async () => {
+    const json = createJsonStorage(path.join(dir, 'cache.json'))
+    const cache = sampleCache()
+    await json.save(cache, allChanges(cache))
+
+    const storage = await createSqliteStorage(path.join(dir, 'cache.db'), json)
+    expect(await storage.load()).toEqual(cache)
+
+    // The import is stored, so the JSON file isn't needed anymore
+    await json.clear()
+    expect(await storage.load()).toEqual(cache)
+  })
+
+  it.skipIf(!sqliteAvailable)('should not import the JSON cache again after clearing SQLite', async () => {
+    const json = createJsonStorage(path.join(dir, 'cache.json'))
+    const cache = sampleCache()
+    await json.save(cache, allChanges(cache))
+
+    const storage = await createSqliteStorage(path.join(dir, 'cache.db'), json)
+    expect(await storage.load()).toEqual(cache)
+
+    await storage.clear()
+    expect(await storage.load()).toBeNull()
+
+    // Not even by a later run
+    const reopened = await createSqliteStorage(path.join(dir, 'cache.db'), json)
+    expect(await reopened.load()).toBeNull()
+  })
+
+  it('should replace the JSON file atomically and keep the previous one as a backup', async () => {
+    const storage = createJsonStorage(path.join(dir, 'cache.json'))
+    const first = sampleCache()
+    await storage.save(first, allChanges(first))
+    expect(await storage.loadBackup()).toBeNull()
+
+    const second = { ...first, timestamp: first.timestamp + 1 }
+    await storage.save(second, allChanges(second))
+
+    expect(await storage.load()).toEqual(second)
+    expect(await storage.loadBackup()).toEqual({ path: path.join(dir, 'cache.bak.json'), cache: first })
+    expect((await fs.readdir(dir)).sort()).toEqual(['cache.bak.json', 'cache.json'])
+
+    // A truncated cache, e.g. from an older version that crashed while writing, still has its backup
+    await fs.writeFile(path.join(dir, 'cache.json'), '{"repositories": {')
+    await storage.quarantine()
+    expect(await storage.loadBackup()).toEqual({ path: path.join(dir, 'cache.bak.json'), cache: first })
+
+    await storage.clear()
+    expect(await storage.loadBackup()).toBeNull()
+  })
+
+  it('should move an unusable JSON cache aside', async () => {
+    const filePath = path.join(dir, 'cache.json')
+    await fs.writeFile(filePath, '{"repositories": {')
+    const storage = createJsonStorage(filePath)
+
+    await expect(storage.load()).rejects.toThrow(SyntaxError)
+    const moved = await storage.quarantine()
+
+    expect(path.basename(moved)).toMatch(/^cache\.unusable-.*\.json$/)
+    expect(await fs.readFile(moved, 'utf-8')).toBe('{"repositories": {')
+    expect(await storage.load()).toBeNull()
+  })
+
+  it.skipIf(!sqliteAvailable)('should move a file that is not a SQLite database aside', async () => {
+    const filePath = path.join(dir, 'cache.db')
+    await fs.writeFile(filePath, 'not a database, but long enough to have a header that SQLite checks')
+
+    const storage = await createSqliteStorage(filePath)
+
+    expect(await storage.load()).toBeNull()
+    expect((await fs.readdir(dir)).some(file => /^cache\.unusable-.*\.db$/.test(file))).toBe(true)
+  })
+
+  it.skipIf(!sqliteAvailable)('should upgrade SQLite caches written before the schema version', async () => {
+    const storage = await createSqliteStorage(path.join(dir, 'cache.db'))
+    const cache = sampleCache()
+    await storage.save(cache, allChanges(cache))
+
+    // Schema version 1 kept cliOptions in the meta table
+    const { DatabaseSync } = await import('node:sqlite' as string)
+    const db = new DatabaseSync(path.join(dir, 'cache.db'))
+    db.exec(`DELETE FROM meta WHERE key = 'schemaVersion'; INSERT INTO meta VALUES ('cliOptions', '{}')`)
+    db.close()
+
+    const stored = await storage.load()
+    expect(stored).toMatchObject({ schemaVersion: 1, cliOptions: {} })
+    expect(migrateCache(stored)).toEqual(cache)
+  })
+
+  it.skipIf(!sqliteAvailable)('should add the columns missing from older SQLite caches', async () => {
+    const storage = await createSqliteStorage(path.join(dir, 'cache.db'))
+    const cache = sampleCache()
+    await storage.save(cache, allChanges(cache))
+
+    const { DatabaseSync } = await import('node:sqlite' as string)
+    const db = new DatabaseSync(path.join(dir, 'cache.db'))
+    db.exec('ALTER TABLE repos DROP COLUMN branches_ref_queries')
+    db.close()
+
+    const reopened = await createSqliteStorage(path.join(dir, 'cache.db'))
+    expect((await reopened.load())?.repositories['jj-vcs/jj-gui'].branchesRefQueries).toBeUndefined()
+    await reopened.save(cache, allChanges(cache))
+    expect(await reopened.load()).toEqual(cache)
+  })
+})
@@ -0,0 +1,75 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { recordRateLimit, resetBudgets } from '../src/ratelimit.js'
+import { configureTokenPool, loadTokens, pickToken, type PooledToken, tokenBudgetKey } from '../src/tokens.js'
+
+// Headers of a response that leaves the given budget
+const rateLimitHeaders = (remaining: number, resetAt: number) => ({
+  'x-ratelimit-limit': '5000',
+  'x-ratelimit-remaining': String(remaining),
+  'x-ratelimit-reset': String(Math.floor(resetAt / 1000)),
+})
+
+describe('Token pool', () => {
+  afterEach(() => {
+    resetBudgets()
+    configureTokenPool([])
+    vi.unstubAllEnvs()
+  })
+
+  it('should read tokens from a file, skipping comments and duplicates', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'find-juju-tokens-'))
+    const tokenFile = path.join(dir, 'tokens')
+    await fs.writeFile(tokenFile, '# CI tokens\nghp_one\n\n  ghp_two  \nghp_one\n')
+
+    try {
+      expect(await loadTokens(tokenFile)).toEqual(['ghp_one', 'ghp_two'])
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should read tokens from GITHUB_TOKENS', async () => {
+    vi.stubEnv('GITHUB_TOKENS', 'ghp_one, ghp_two,ghp_one,')
+    expect(await loadTokens()).toEqual(['ghp_one', 'ghp_two'])
+
+    vi.stubEnv('GITHUB_TOKENS', '')
+    expect(await loadTokens()).toEqual([])
+  })
+
+  it('should pick the token with the most remaining budget', () => {
+    configureTokenPool(['ghp_one', 'ghp_two', 'ghp_three'])
+    const resetAt = Date.now() + 60 * 60 * 1000
+    const [one, two, three] = ['token 1', 'token 2', 'token 3'].map(label => ({ label }) as PooledToken)
+
+    // Tokens that weren't used yet come first
+    recordRateLimit(tokenBudgetKey('github.com', one, 'core'), rateLimitHeaders(4000, resetAt))
+    expect(pickToken('github.com', 'core')).toMatchObject({ label: 'token 2' })
+
+    recordRateLimit(tokenBudgetKey('github.com', two, 'core'), rateLimitHeaders(3000, resetAt))
+    recordRateLimit(tokenBudgetKey('github.com', three, 'core'), rateLimitHeaders(4500, resetAt))
+    expect(pickToken('github.com', 'core')).toMatchObject({ label: 'token 3' })
+
+    // Budgets are per resource
+    expect(pickToken('github.com', 'search')).toMatchObject({ label: 'token 1' })
+  })
+
+  it('should skip used up tokens until their reset', () => {
+    configureTokenPool(['ghp_one', 'ghp_two'])
+    const resetAt = Date.now() + 60 * 60 * 1000
+    const [one, two] = ['token 1', 'token 2'].map(label => ({ label }) as PooledToken)
+
+    recordRateLimit(tokenBudgetKey('github.com', one, 'core'), rateLimitHeaders(0, resetAt))
+    recordRateLimit(tokenBudgetKey('github.com', two, 'core'), rateLimitHeaders(10, resetAt))
+    expect(pickToken('github.com', 'core')).toMatchObject({ label: 'token 2' })
+
+    recordRateLimit(tokenBudgetKey('github.com', two, 'core'), rateLimitHeaders(0, resetAt - 1000))
+    expect(pickToken('github.com', 'core')).toEqual({ resetAt: Math.floor((resetAt - 1000) / 1000) * 1000 })
+
+    // A reset that has passed makes the token usable again
+    recordRateLimit(tokenBudgetKey('github.com', one, 'core'), rateLimitHeaders(0, Date.now() - 2000))
+    expect(pickToken('github.com', 'core')).toMatchObject({ label: 'token 1' })
+  })
+})